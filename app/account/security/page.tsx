@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { ShieldCheck, ShieldAlert, Loader2 } from "lucide-react";
+import { TwoFactorSetup } from "@/components/TwoFactorSetup";
+import { getAuthHeaders } from "@/lib/auth/client";
+
+interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  requiredAboveUsd: number;
+  recoveryCodesRemaining: number;
+}
+
+export default function AccountSecurityPage() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/mfa", { headers: getAuthHeaders() });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 401
+            ? "Please log in to manage your account security"
+            : result.error || "Failed to load security settings"
+        );
+      }
+
+      setStatus(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load security settings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    // Six digits is an authenticator code, anything else a recovery code
+    const input = code.trim();
+    const isTotpCode = /^\d{6}$/.test(input);
+
+    try {
+      const response = await fetch("/api/auth/mfa", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        body: JSON.stringify(isTotpCode ? { code: input } : { recoveryCode: input }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to turn off two-factor authentication");
+      }
+
+      setCode("");
+      await loadStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to turn off two-factor authentication");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-2xl neumorphic p-8">
+          <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+            {status?.enabled ? (
+              <ShieldCheck className="h-10 w-10 text-green-500" />
+            ) : (
+              <ShieldAlert className="h-10 w-10 text-muted-foreground" />
+            )}
+          </div>
+
+          <h1 className="text-center text-2xl font-serif font-bold text-foreground">
+            Two-factor authentication
+          </h1>
+
+          <div className="mt-6 space-y-4">
+            {error && (
+              <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
+                {error}
+              </div>
+            )}
+
+            {!status ? (
+              <Link
+                href="/"
+                className="block w-full rounded-xl bg-primary py-3 text-center font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02]"
+              >
+                Return Home
+              </Link>
+            ) : !status.enabled ? (
+              <>
+                {status.required && (
+                  <p className="text-sm text-center text-muted-foreground">
+                    You have more than ${status.requiredAboveUsd} at stake, so two-factor
+                    authentication is required.
+                  </p>
+                )}
+                <TwoFactorSetup onComplete={() => loadStatus()} />
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-center text-muted-foreground">
+                  Two-factor authentication is on. You have {status.recoveryCodesRemaining} unused
+                  recovery codes.
+                </p>
+
+                {status.required ? (
+                  <p className="text-sm text-center text-muted-foreground">
+                    It cannot be turned off while more than ${status.requiredAboveUsd} is at stake.
+                  </p>
+                ) : (
+                  <form onSubmit={handleDisable} className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">
+                        Authentication code
+                      </label>
+                      <input
+                        type="text"
+                        autoComplete="one-time-code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                        placeholder="6-digit code or recovery code"
+                        required
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+                    >
+                      {isSubmitting ? "Please wait..." : "Turn off two-factor authentication"}
+                    </button>
+                  </form>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { getAccountExport } from '@/lib/db/account';
+
+// GET - Download everything stored about the signed-in user as a JSON file
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const data = await getAccountExport(payload.userId);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'User not found or deactivated' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `showup-export-${data.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Account export error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
+import { clearSessionCookies, hasSessionCookies } from '@/lib/auth/cookies';
+import { isMfaEnabled, verifySecondFactor } from '@/lib/auth/mfa';
+import { getRequestMetadata } from '@/lib/auth/session';
+import { anonymizeAccount } from '@/lib/db/account';
+import { logSecurityEvent } from '@/lib/db/auth';
+
+// DELETE - Delete the signed-in user's account (requires the password, and a
+// second factor when 2FA is on). Refused while a challenge is unresolved.
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    const { password, code, recoveryCode } = body as {
+      password?: string;
+      code?: string;
+      recoveryCode?: string;
+    };
+
+    if (!password) {
+      return NextResponse.json(
+        { error: 'Password is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await query<{ password_hash: string }>(
+      `SELECT password_hash FROM users WHERE id = $1 AND is_active = true`,
+      [payload.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'User not found or deactivated' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await verifyPassword(password, result.rows[0].password_hash))) {
+      return NextResponse.json(
+        { error: 'Invalid password' },
+        { status: 401 }
+      );
+    }
+
+    if (await isMfaEnabled(payload.userId)) {
+      const verified = await verifySecondFactor(
+        payload.userId,
+        { code, recoveryCode },
+        getRequestMetadata(request)
+      );
+
+      if (!verified) {
+        return NextResponse.json(
+          { error: 'Invalid verification code', code: 'mfa_required' },
+          { status: 401 }
+        );
+      }
+    }
+
+    const deletion = await anonymizeAccount(payload.userId);
+
+    if (!deletion) {
+      return NextResponse.json(
+        { error: 'User not found or deactivated' },
+        { status: 404 }
+      );
+    }
+
+    // Escrowed funds must stay traceable to the account until they are settled
+    if (!deletion.deleted) {
+      return NextResponse.json(
+        {
+          error: 'Your account cannot be deleted while a challenge is active or being voted on',
+          challenges: deletion.blockingChallenges,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Recorded without the request's IP address and user agent
+    await logSecurityEvent(
+      payload.userId,
+      'account_deleted',
+      { anonymizedChallenges: deletion.anonymizedChallenges },
+      { ipAddress: null, userAgent: null }
+    );
+
+    if (hasSessionCookies(request)) {
+      await clearSessionCookies();
+    }
+
+    return NextResponse.json({ message: 'Account deleted' });
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
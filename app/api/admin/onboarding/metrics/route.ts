@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { getOnboardingMetrics } from '@/lib/db/onboarding';
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parse a ?from= / ?to= value; a bare date for "to" covers that whole day (UTC)
+function parseDateParam(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  if (endOfDay && DATE_ONLY_REGEX.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+// GET - Onboarding funnel metrics for sessions started between ?from= and ?to= (optional)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request, { roles: ['admin'] });
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+    const startDate = parseDateParam(searchParams.get('from'), false);
+    const endDate = parseDateParam(searchParams.get('to'), true);
+
+    if (startDate === null || endDate === null) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Start date must be before end date' },
+        { status: 400 }
+      );
+    }
+
+    const metrics = await getOnboardingMetrics(startDate, endDate);
+
+    return NextResponse.json({ metrics });
+  } catch (error) {
+    console.error('Get onboarding metrics error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { query } from '@/lib/db';
+import { generateSecureToken, hashToken, isValidEmail } from '@/lib/auth';
+import { getRequestMetadata } from '@/lib/auth/session';
+import { createPasswordResetToken } from '@/lib/db/auth';
+import { sendMail } from '@/lib/mail';
+import { passwordResetEmail } from '@/lib/mail/templates';
+import { User } from '@/types/auth';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Same response whether or not the email is registered
+const GENERIC_RESPONSE = {
+  message: 'If an account exists for that email, a password reset link has been sent',
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email } = body as { email?: string };
+
+    if (!email || !isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await query<User>(
+      'SELECT id, email FROM users WHERE email = $1 AND is_active = true',
+      [email.toLowerCase()]
+    );
+
+    if (result.rows.length === 0) {
+      return NextResponse.json(GENERIC_RESPONSE);
+    }
+
+    const user = result.rows[0];
+    const { ipAddress } = getRequestMetadata(request);
+
+    // Issued and sent after responding, so a registered email takes no longer to answer
+    // than an unknown one. Failures are logged but not surfaced.
+    after(async () => {
+      try {
+        const token = generateSecureToken();
+        const expiresAt = new Date();
+        expiresAt.setMinutes(expiresAt.getMinutes() + RESET_TOKEN_TTL_MINUTES);
+
+        await createPasswordResetToken(user.id, hashToken(token), expiresAt, ipAddress);
+
+        const resetUrl = `${NEXT_PUBLIC_APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+        await sendMail({ to: user.email, ...passwordResetEmail(resetUrl) });
+      } catch (resetError) {
+        console.error('Failed to send password reset email:', resetError);
+      }
+    });
+
+    return NextResponse.json(GENERIC_RESPONSE);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
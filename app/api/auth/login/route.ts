@@ -1,12 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
+import { verifyPassword, generateMfaChallengeToken } from '@/lib/auth';
+import { completeLogin, getRequestMetadata } from '@/lib/auth/session';
+import { respondWithSession } from '@/lib/auth/cookies';
 import {
-  verifyPassword,
-  generateAccessToken,
-  generateRefreshToken,
-  getRefreshTokenExpiry,
-} from '@/lib/auth';
-import { UserWithPassword, LoginRequest, AuthResponse, User } from '@/types/auth';
+  ACCOUNT_LOCKED_ERROR,
+  checkLoginThrottle,
+  handleFailedLogin,
+  loginThrottledResponse,
+} from '@/lib/auth/loginThrottle';
+import { getLoginMfaPurpose } from '@/lib/auth/mfa';
+import { recordLoginAttempt } from '@/lib/db/auth';
+import {
+  UserWithPassword,
+  LoginThrottleState,
+  LoginRequest,
+  AuthResponse,
+  MfaChallengeResponse,
+} from '@/types/auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,25 +32,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const normalizedEmail = email.toLowerCase();
+    const metadata = getRequestMetadata(request);
+
     // Find user by email
-    const result = await query<UserWithPassword>(
-      `SELECT id, email, password_hash, username, wallet_address, 
-              created_at, updated_at, email_verified, is_active
+    const result = await query<UserWithPassword & LoginThrottleState>(
+      `SELECT id, email, password_hash, username, wallet_address, role,
+              created_at, updated_at, email_verified, is_active,
+              failed_login_attempts, last_failed_login_at, locked_until
        FROM users WHERE email = $1`,
-      [email.toLowerCase()]
+      [normalizedEmail]
     );
 
-    if (result.rows.length === 0) {
+    const userWithPassword = result.rows[0] || null;
+
+    // Lockout, progressive delay and per-IP limit are checked before the password
+    const throttle = await checkLoginThrottle(userWithPassword, metadata.ipAddress);
+
+    if (!throttle.allowed) {
+      await recordLoginAttempt(
+        normalizedEmail,
+        userWithPassword?.id || null,
+        false,
+        throttle.reason,
+        metadata
+      );
+
+      return loginThrottledResponse(throttle);
+    }
+
+    if (!userWithPassword) {
+      await recordLoginAttempt(normalizedEmail, null, false, 'unknown_email', metadata);
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    const userWithPassword = result.rows[0];
-
     // Check if account is active
     if (!userWithPassword.is_active) {
+      await recordLoginAttempt(normalizedEmail, userWithPassword.id, false, 'account_inactive', metadata);
       return NextResponse.json(
         { error: 'Account is deactivated' },
         { status: 403 }
@@ -50,47 +82,38 @@ export async function POST(request: NextRequest) {
     const isValidPassword = await verifyPassword(password, userWithPassword.password_hash);
 
     if (!isValidPassword) {
+      await recordLoginAttempt(normalizedEmail, userWithPassword.id, false, 'invalid_password', metadata);
+
+      const locked = await handleFailedLogin(userWithPassword, metadata);
+      if (locked) {
+        return NextResponse.json({ error: ACCOUNT_LOCKED_ERROR }, { status: 423 });
+      }
+
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    // Generate tokens
-    const accessToken = await generateAccessToken(userWithPassword.id, userWithPassword.email);
-    const refreshToken = await generateRefreshToken(userWithPassword.id, userWithPassword.email);
-
-    // Store refresh token in sessions
-    const userAgent = request.headers.get('user-agent') || null;
-    const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 
-               request.headers.get('x-real-ip') || 
-               null;
+    // A second factor is checked (or enrolled) before the login completes
+    const mfaPurpose = await getLoginMfaPurpose(userWithPassword);
+    if (mfaPurpose) {
+      const challenge: MfaChallengeResponse = {
+        mfaRequired: mfaPurpose === 'verify',
+        mfaEnrollmentRequired: mfaPurpose === 'enroll',
+        mfaToken: await generateMfaChallengeToken(
+          userWithPassword.id,
+          userWithPassword.email,
+          mfaPurpose
+        ),
+      };
+      return NextResponse.json(challenge, { status: 200 });
+    }
 
-    await query(
-      `INSERT INTO sessions (user_id, refresh_token, expires_at, user_agent, ip_address)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [userWithPassword.id, refreshToken, getRefreshTokenExpiry(), userAgent, ip]
-    );
+    // Generate tokens and start a new session
+    const response: AuthResponse = await completeLogin(userWithPassword, metadata);
 
-    // Remove password_hash from response
-    const user: User = {
-      id: userWithPassword.id,
-      email: userWithPassword.email,
-      username: userWithPassword.username,
-      wallet_address: userWithPassword.wallet_address,
-      created_at: userWithPassword.created_at,
-      updated_at: userWithPassword.updated_at,
-      email_verified: userWithPassword.email_verified,
-      is_active: userWithPassword.is_active,
-    };
-
-    const response: AuthResponse = {
-      user,
-      accessToken,
-      refreshToken,
-    };
-
-    return NextResponse.json(response, { status: 200 });
+    return respondWithSession(request, response);
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
@@ -1,10 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { query } from '@/lib/db';
+import { hashToken } from '@/lib/auth';
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  hasValidCsrfToken,
+} from '@/lib/auth/cookies';
+import {
+  deleteSessionByRefreshTokenHash,
+  deleteUserSessions,
+  getActiveSessionByRefreshTokenHash,
+} from '@/lib/db/auth';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { refreshToken } = body;
+    const body = await request.json().catch(() => ({}));
+    const { allDevices } = body as { allDevices?: boolean };
+
+    // Bearer clients send the token in the body; cookie sessions rely on the cookie
+    const cookieToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    const cookieMode = !body.refreshToken && !!cookieToken;
+    const refreshToken: string | undefined = body.refreshToken || cookieToken;
 
     if (!refreshToken) {
       return NextResponse.json(
@@ -13,11 +28,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (cookieMode) {
+      if (!hasValidCsrfToken(request)) {
+        return NextResponse.json(
+          { error: 'Invalid CSRF token' },
+          { status: 403 }
+        );
+      }
+      await clearSessionCookies();
+    }
+
+    // Log out of every device: the (current) refresh token proves which user is asking
+    if (allDevices) {
+      const session = await getActiveSessionByRefreshTokenHash(hashToken(refreshToken));
+      if (!session) {
+        return NextResponse.json(
+          { error: 'Session expired or not found' },
+          { status: 401 }
+        );
+      }
+
+      const revokedCount = await deleteUserSessions(session.user_id);
+      return NextResponse.json({ message: 'Logged out of all devices', revokedCount });
+    }
+
     // Delete the session
-    await query(
-      'DELETE FROM sessions WHERE refresh_token = $1',
-      [refreshToken]
-    );
+    await deleteSessionByRefreshTokenHash(hashToken(refreshToken));
 
     return NextResponse.json({ message: 'Logged out successfully' });
   } catch (error) {
@@ -1,35 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
 import { User } from '@/types/auth';
 
 export async function GET(request: NextRequest) {
   try {
-    // Get authorization header
-    const authHeader = request.headers.get('authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'Authorization header missing or invalid' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.split(' ')[1];
-    
-    // Verify the access token
-    const payload = await verifyToken(token);
-
-    if (!payload || payload.type !== 'access') {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      );
-    }
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
 
     // Get user data
     const result = await query<User>(
-      `SELECT id, email, username, wallet_address, created_at, updated_at, email_verified, is_active
+      `SELECT id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active
        FROM users WHERE id = $1 AND is_active = true`,
       [payload.userId]
     );
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMfaEnrollmentAuth } from '@/lib/auth/guard';
+import { confirmTotpEnrollment } from '@/lib/auth/mfa';
+import { completeLogin, getRequestMetadata } from '@/lib/auth/session';
+import { respondWithSession } from '@/lib/auth/cookies';
+import { getUserForLogin } from '@/lib/db/auth';
+
+// POST - Confirm TOTP enrollment with a first code and receive recovery codes.
+// When enrolling as part of a login, the token pair is returned as well.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { code, mfaToken } = body as { code?: string; mfaToken?: string };
+
+    if (!code) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await requireMfaEnrollmentAuth(request, mfaToken);
+    if (!auth.ok) return auth.response;
+    const { payload, viaLogin } = auth;
+
+    const user = await getUserForLogin(payload.userId);
+    if (!user || !user.is_active) {
+      return NextResponse.json(
+        { error: 'Account is deactivated' },
+        { status: 403 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+    const recoveryCodes = await confirmTotpEnrollment(user, code, metadata);
+
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    if (!viaLogin) {
+      return NextResponse.json({ recoveryCodes });
+    }
+
+    const authResponse = await completeLogin(user, metadata);
+
+    return respondWithSession(request, { ...authResponse, recoveryCodes });
+  } catch (error) {
+    console.error('MFA enable error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import {
+  MFA_REQUIRED_DEPOSIT_USD,
+  isMfaEnabled,
+  isMfaRequired,
+  verifySecondFactor,
+} from '@/lib/auth/mfa';
+import { getRequestMetadata } from '@/lib/auth/session';
+import {
+  countUnusedRecoveryCodes,
+  disableTotp,
+  logSecurityEvent,
+} from '@/lib/db/auth';
+import { sendMail } from '@/lib/mail';
+import { mfaDisabledEmail } from '@/lib/mail/templates';
+
+// GET - Two-factor status of the signed-in user
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const enabled = await isMfaEnabled(payload.userId);
+
+    return NextResponse.json({
+      enabled,
+      required: await isMfaRequired({ id: payload.userId, email: payload.email }),
+      requiredAboveUsd: MFA_REQUIRED_DEPOSIT_USD,
+      recoveryCodesRemaining: enabled
+        ? await countUnusedRecoveryCodes(payload.userId)
+        : 0,
+    });
+  } catch (error) {
+    console.error('Get MFA status error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Turn off two-factor authentication (requires a current code)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const body = await request.json().catch(() => ({}));
+    const { code, recoveryCode } = body as { code?: string; recoveryCode?: string };
+
+    if (!code && !recoveryCode) {
+      return NextResponse.json(
+        { error: 'A verification or recovery code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (await isMfaRequired({ id: payload.userId, email: payload.email })) {
+      return NextResponse.json(
+        {
+          error: `Two-factor authentication is required while more than $${MFA_REQUIRED_DEPOSIT_USD} is at stake`,
+          code: 'mfa_required',
+        },
+        { status: 403 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+    const verified = await verifySecondFactor(payload.userId, { code, recoveryCode }, metadata);
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    await disableTotp(payload.userId);
+    await logSecurityEvent(payload.userId, 'mfa_disabled', {}, metadata);
+
+    try {
+      await sendMail({ to: payload.email, ...mfaDisabledEmail() });
+    } catch (mailError) {
+      console.error('Failed to send 2FA disabled email:', mailError);
+    }
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Disable MFA error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
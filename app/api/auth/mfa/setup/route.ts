@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireMfaEnrollmentAuth } from '@/lib/auth/guard';
+import { startTotpEnrollment } from '@/lib/auth/mfa';
+
+// POST - Start TOTP enrollment: returns the secret and a QR code for an authenticator app.
+// The secret stays pending until confirmed via /api/auth/mfa/enable.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { mfaToken } = body as { mfaToken?: string };
+
+    const auth = await requireMfaEnrollmentAuth(request, mfaToken);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const enrollment = await startTotpEnrollment({
+      id: payload.userId,
+      email: payload.email,
+    });
+
+    if (!enrollment) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(enrollment, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('MFA setup error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
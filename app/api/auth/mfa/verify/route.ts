@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { completeLogin, getRequestMetadata } from '@/lib/auth/session';
+import { respondWithSession } from '@/lib/auth/cookies';
+import {
+  ACCOUNT_LOCKED_ERROR,
+  checkLoginThrottle,
+  handleFailedLogin,
+  loginThrottledResponse,
+} from '@/lib/auth/loginThrottle';
+import { verifyMfaChallengeToken, verifySecondFactor } from '@/lib/auth/mfa';
+import { getUserForLogin, recordLoginAttempt } from '@/lib/db/auth';
+import { AuthResponse, MfaVerifyRequest } from '@/types/auth';
+
+// POST - Second login step: exchange the MFA challenge token and a TOTP or
+// recovery code for the token pair
+export async function POST(request: NextRequest) {
+  try {
+    const body: MfaVerifyRequest = await request.json();
+    const { mfaToken, code, recoveryCode } = body;
+
+    if (!mfaToken || (!code && !recoveryCode)) {
+      return NextResponse.json(
+        { error: 'MFA token and a verification or recovery code are required' },
+        { status: 400 }
+      );
+    }
+
+    const payload = await verifyMfaChallengeToken(mfaToken, 'verify');
+    if (!payload) {
+      return NextResponse.json(
+        { error: 'Login session expired. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    const user = await getUserForLogin(payload.userId);
+    if (!user || !user.is_active) {
+      return NextResponse.json(
+        { error: 'Account is deactivated' },
+        { status: 403 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const throttle = await checkLoginThrottle(user, metadata.ipAddress);
+    if (!throttle.allowed) {
+      await recordLoginAttempt(user.email, user.id, false, throttle.reason, metadata);
+      return loginThrottledResponse(throttle);
+    }
+
+    const verified = await verifySecondFactor(user.id, { code, recoveryCode }, metadata);
+
+    if (!verified) {
+      await recordLoginAttempt(user.email, user.id, false, 'invalid_mfa_code', metadata);
+
+      const locked = await handleFailedLogin(user, metadata);
+      if (locked) {
+        return NextResponse.json({ error: ACCOUNT_LOCKED_ERROR }, { status: 423 });
+      }
+
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    const response: AuthResponse = await completeLogin(user, metadata);
+
+    return respondWithSession(request, response);
+  } catch (error) {
+    console.error('MFA verify error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
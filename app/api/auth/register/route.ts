@@ -2,12 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { query } from '@/lib/db';
 import {
   hashPassword,
-  generateAccessToken,
-  generateRefreshToken,
   isValidEmail,
   isValidPassword,
-  getRefreshTokenExpiry,
 } from '@/lib/auth';
+import { issueTokenPair, getRequestMetadata } from '@/lib/auth/session';
+import { respondWithSession } from '@/lib/auth/cookies';
+import { sendVerificationEmail } from '@/lib/auth/emailVerification';
 import { User, UserWithPassword, RegisterRequest, AuthResponse } from '@/types/auth';
 
 export async function POST(request: NextRequest) {
@@ -75,26 +75,24 @@ export async function POST(request: NextRequest) {
     const result = await query<User>(
       `INSERT INTO users (email, password_hash, username)
        VALUES ($1, $2, $3)
-       RETURNING id, email, username, wallet_address, created_at, updated_at, email_verified, is_active`,
+       RETURNING id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active`,
       [email.toLowerCase(), passwordHash, username || null]
     );
 
     const user = result.rows[0];
 
-    // Generate tokens
-    const accessToken = await generateAccessToken(user.id, user.email);
-    const refreshToken = await generateRefreshToken(user.id, user.email);
-
-    // Store refresh token in sessions
-    const userAgent = request.headers.get('user-agent') || null;
-    const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 
-               request.headers.get('x-real-ip') || 
-               null;
+    // Send verification email (registration still succeeds if delivery fails;
+    // the user can request a new link via POST /api/auth/verify)
+    try {
+      await sendVerificationEmail(user.id, user.email);
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
 
-    await query(
-      `INSERT INTO sessions (user_id, refresh_token, expires_at, user_agent, ip_address)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [user.id, refreshToken, getRefreshTokenExpiry(), userAgent, ip]
+    // Generate tokens and start a new session
+    const { accessToken, refreshToken } = await issueTokenPair(
+      user,
+      getRequestMetadata(request)
     );
 
     const response: AuthResponse = {
@@ -103,7 +101,7 @@ export async function POST(request: NextRequest) {
       refreshToken,
     };
 
-    return NextResponse.json(response, { status: 201 });
+    return respondWithSession(request, response, { status: 201 });
   } catch (error) {
     console.error('Registration error:', error);
     return NextResponse.json(
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { hashPassword, hashToken, isValidPassword } from '@/lib/auth';
+import { resetPasswordWithToken } from '@/lib/db/auth';
+import { sendMail } from '@/lib/mail';
+import { passwordChangedEmail } from '@/lib/mail/templates';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { token, password } = body as { token?: string; password?: string };
+
+    if (!token || !password) {
+      return NextResponse.json(
+        { error: 'Token and new password are required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate password strength
+    const passwordValidation = isValidPassword(password);
+    if (!passwordValidation.valid) {
+      return NextResponse.json(
+        { error: passwordValidation.message },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+    const userId = await resetPasswordWithToken(hashToken(token), passwordHash);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Reset link is invalid or has expired' },
+        { status: 400 }
+      );
+    }
+
+    // Let the account owner know, in case they did not initiate the reset
+    try {
+      const userResult = await query<{ email: string }>(
+        'SELECT email FROM users WHERE id = $1',
+        [userId]
+      );
+      if (userResult.rows[0]) {
+        await sendMail({ to: userResult.rows[0].email, ...passwordChangedEmail() });
+      }
+    } catch (mailError) {
+      console.error('Failed to send password changed email:', mailError);
+    }
+
+    return NextResponse.json({ message: 'Password has been reset. Please log in again.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { deleteUserSession } from '@/lib/db/auth';
+import { isUuid } from '@/lib/validation';
+
+// DELETE - Revoke one of the signed-in user's sessions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { id } = await params;
+
+    if (!isUuid(id)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await deleteUserSession(payload.userId, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      message: 'Session revoked',
+      current: id === payload.sid,
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { listActiveSessions, deleteUserSessions } from '@/lib/db/auth';
+
+// GET - List the signed-in user's active sessions
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const sessions = await listActiveSessions(payload.userId, payload.sid);
+
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Log out everywhere else (revoke every session except the caller's)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    // Tokens issued before session tracking cannot identify the current device
+    if (!payload.sid) {
+      return NextResponse.json(
+        { error: 'Current session unknown. Please log in again.' },
+        { status: 400 }
+      );
+    }
+
+    const revokedCount = await deleteUserSessions(payload.userId, payload.sid);
+
+    return NextResponse.json({
+      message: 'Logged out of all other sessions',
+      revokedCount,
+    });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { verifySiweSignature } from '@/lib/auth/siwe';
+import { getUserByWalletAddress, linkWalletAddress } from '@/lib/db/auth';
+import { SiweRequest } from '@/types/auth';
+
+// POST - Link a wallet to the signed-in email account after proving ownership
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const body: SiweRequest = await request.json();
+    const { message, signature } = body;
+
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: 'Message and signature are required' },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifySiweSignature(message, signature);
+
+    if (!verification.success) {
+      return NextResponse.json(
+        { error: verification.error },
+        { status: 401 }
+      );
+    }
+
+    const existingOwner = await getUserByWalletAddress(verification.address);
+    if (existingOwner && existingOwner.id !== payload.userId) {
+      return NextResponse.json(
+        { error: 'This wallet is already linked to another account' },
+        { status: 409 }
+      );
+    }
+
+    let user;
+    try {
+      user = await linkWalletAddress(payload.userId, verification.address);
+    } catch (error) {
+      // Unique index on wallet_address: another account verified it concurrently
+      if ((error as { code?: string }).code === '23505') {
+        return NextResponse.json(
+          { error: 'This wallet is already linked to another account' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found or deactivated' },
+        { status: 404 }
+      );
+    }
+
+    // The current session stays valid; linking does not sign in again
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error('SIWE link error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { generateMfaChallengeToken } from '@/lib/auth';
+import { verifySiweSignature } from '@/lib/auth/siwe';
+import { completeLogin, getRequestMetadata } from '@/lib/auth/session';
+import { respondWithSession } from '@/lib/auth/cookies';
+import { checkLoginThrottle, loginThrottledResponse } from '@/lib/auth/loginThrottle';
+import { getLoginMfaPurpose } from '@/lib/auth/mfa';
+import { getUserByWalletAddress, recordLoginAttempt } from '@/lib/db/auth';
+import { AuthResponse, MfaChallengeResponse, SiweRequest } from '@/types/auth';
+
+// POST - Log in with a wallet previously linked to an account
+export async function POST(request: NextRequest) {
+  try {
+    const body: SiweRequest = await request.json();
+    const { message, signature } = body;
+
+    if (!message || !signature) {
+      return NextResponse.json(
+        { error: 'Message and signature are required' },
+        { status: 400 }
+      );
+    }
+
+    const verification = await verifySiweSignature(message, signature);
+
+    if (!verification.success) {
+      return NextResponse.json(
+        { error: verification.error },
+        { status: 401 }
+      );
+    }
+
+    const metadata = getRequestMetadata(request);
+    const user = await getUserByWalletAddress(verification.address);
+
+    // A signed message replaces the password only: lockout and 2FA still apply
+    const throttle = await checkLoginThrottle(user, metadata.ipAddress);
+
+    if (!throttle.allowed) {
+      if (user) {
+        await recordLoginAttempt(user.email, user.id, false, throttle.reason, metadata);
+      }
+      return loginThrottledResponse(throttle);
+    }
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'No account is linked to this wallet. Log in with email and link it first.' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.is_active) {
+      await recordLoginAttempt(user.email, user.id, false, 'account_inactive', metadata);
+      return NextResponse.json(
+        { error: 'Account is deactivated' },
+        { status: 403 }
+      );
+    }
+
+    // A second factor is checked (or enrolled) before the login completes
+    const mfaPurpose = await getLoginMfaPurpose(user);
+    if (mfaPurpose) {
+      const challenge: MfaChallengeResponse = {
+        mfaRequired: mfaPurpose === 'verify',
+        mfaEnrollmentRequired: mfaPurpose === 'enroll',
+        mfaToken: await generateMfaChallengeToken(user.id, user.email, mfaPurpose),
+      };
+      return NextResponse.json(challenge, { status: 200 });
+    }
+
+    // Generate tokens and start a new session
+    const response: AuthResponse = await completeLogin(user, metadata);
+
+    return respondWithSession(request, response);
+  } catch (error) {
+    console.error('SIWE login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { issueSiweNonce } from '@/lib/auth/siwe';
+
+// GET - Issue a single-use nonce for a Sign-In with Ethereum message
+export async function GET() {
+  try {
+    const { nonce, expiresAt } = await issueSiweNonce();
+
+    return NextResponse.json(
+      { nonce, expiresAt },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('SIWE nonce error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockAccount } from '@/lib/auth/loginThrottle';
+import { getRequestMetadata } from '@/lib/auth/session';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// GET - Unlock an account from the link sent in the lockout email
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.redirect(
+      `${NEXT_PUBLIC_APP_URL}/?accountUnlocked=false&reason=missing_token`
+    );
+  }
+
+  try {
+    const userId = await unlockAccount(token, getRequestMetadata(request));
+
+    if (!userId) {
+      return NextResponse.redirect(
+        `${NEXT_PUBLIC_APP_URL}/?accountUnlocked=false&reason=invalid_or_expired`
+      );
+    }
+
+    return NextResponse.redirect(`${NEXT_PUBLIC_APP_URL}/?accountUnlocked=true`);
+  } catch (error) {
+    console.error('Account unlock error:', error);
+    return NextResponse.redirect(
+      `${NEXT_PUBLIC_APP_URL}/?accountUnlocked=false&reason=server_error`
+    );
+  }
+}
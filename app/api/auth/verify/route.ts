@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { query } from '@/lib/db';
+import { hashToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
+import { sendVerificationEmail } from '@/lib/auth/emailVerification';
+import {
+  consumeEmailVerificationToken,
+  getLatestEmailVerificationToken,
+} from '@/lib/db/auth';
+import { User } from '@/types/auth';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Minimum time between two verification emails for the same user
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// GET - Verify email address from the link sent by email
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.redirect(
+      `${NEXT_PUBLIC_APP_URL}/?emailVerified=false&reason=missing_token`
+    );
+  }
+
+  try {
+    const userId = await consumeEmailVerificationToken(hashToken(token));
+
+    if (!userId) {
+      return NextResponse.redirect(
+        `${NEXT_PUBLIC_APP_URL}/?emailVerified=false&reason=invalid_or_expired`
+      );
+    }
+
+    return NextResponse.redirect(`${NEXT_PUBLIC_APP_URL}/onboarding?emailVerified=true`);
+  } catch (error) {
+    console.error('Email verification error:', error);
+    return NextResponse.redirect(
+      `${NEXT_PUBLIC_APP_URL}/?emailVerified=false&reason=server_error`
+    );
+  }
+}
+
+// POST - Send (or resend) the verification email to the signed-in user
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const userResult = await query<User>(
+      `SELECT id, email, email_verified FROM users WHERE id = $1 AND is_active = true`,
+      [payload.userId]
+    );
+
+    if (userResult.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'User not found or deactivated' },
+        { status: 404 }
+      );
+    }
+
+    const user = userResult.rows[0];
+
+    if (user.email_verified) {
+      return NextResponse.json(
+        { error: 'Email address is already verified' },
+        { status: 409 }
+      );
+    }
+
+    // Throttle resends
+    const latestToken = await getLatestEmailVerificationToken(user.id);
+    if (latestToken) {
+      const secondsSinceLast =
+        (Date.now() - new Date(latestToken.created_at).getTime()) / 1000;
+      if (secondsSinceLast < RESEND_COOLDOWN_SECONDS) {
+        return NextResponse.json(
+          {
+            error: 'Please wait before requesting another verification email',
+            retryAfterSeconds: Math.ceil(RESEND_COOLDOWN_SECONDS - secondsSinceLast),
+          },
+          { status: 429 }
+        );
+      }
+    }
+
+    await sendVerificationEmail(user.id, user.email);
+
+    return NextResponse.json({ message: 'Verification email sent' });
+  } catch (error) {
+    console.error('Send verification email error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
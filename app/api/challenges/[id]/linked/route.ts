@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { query } from '@/lib/db';
+import { getLinkedChallenges } from '@/lib/db/invites';
+import { isUuid } from '@/lib/validation';
+
+// GET - Progress of the challenges linked to one of the user's challenges through an invite
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { id } = await params;
+
+    const owned = isUuid(id)
+      ? await query('SELECT 1 FROM challenges WHERE id = $1 AND user_id = $2', [id, payload.userId])
+      : null;
+
+    if (!owned || owned.rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    const linkedChallenges = await getLinkedChallenges(id);
+
+    return NextResponse.json({ linkedChallenges });
+  } catch (error) {
+    console.error('Get linked challenges error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { withOnChainState } from '@/lib/challenges';
+import { getUserChallenge } from '@/lib/db/challenges';
+import { isUuid } from '@/lib/validation';
+
+// GET - One of the user's challenges, with its on-chain state
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { id } = await params;
+
+    const row = isUuid(id)
+      ? await getUserChallenge({ id: payload.userId, email: payload.email }, id)
+      : null;
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ challenge: await withOnChainState(row) });
+  } catch (error) {
+    console.error('Get challenge error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
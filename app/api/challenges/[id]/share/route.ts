@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import {
+  getChallengeShareSettings,
+  trackChallengeShareEvent,
+  updateChallengeShareSettings,
+  type ChallengeShareSettingsRow,
+} from '@/lib/db/sharing';
+import {
+  CHALLENGE_VISIBILITIES,
+  getChallengeShareUrl,
+  isShareChannel,
+} from '@/lib/sharing';
+import { isUuid } from '@/lib/validation';
+import { ChallengeShareSettings, ChallengeVisibility } from '@/types/challenge';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The user's own challenge, or null
+async function getOwnChallenge(
+  id: string,
+  userId: string
+): Promise<ChallengeShareSettingsRow | null> {
+  if (!isUuid(id)) return null;
+  const challenge = await getChallengeShareSettings(id);
+  return challenge && challenge.user_id === userId ? challenge : null;
+}
+
+function toShareSettings(challenge: ChallengeShareSettingsRow): ChallengeShareSettings {
+  return {
+    slug: challenge.slug,
+    url: getChallengeShareUrl(challenge.slug),
+    visibility: challenge.visibility,
+    showDeposit: challenge.show_deposit,
+  };
+}
+
+function challengeNotFound() {
+  return NextResponse.json(
+    { error: 'Challenge not found' },
+    { status: 404 }
+  );
+}
+
+// GET - Public page link and privacy settings of one of the user's challenges
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const challenge = await getOwnChallenge(id, auth.payload.userId);
+    if (!challenge) return challengeNotFound();
+
+    return NextResponse.json({ share: toShareSettings(challenge) });
+  } catch (error) {
+    console.error('Get challenge share settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update the privacy settings: { visibility?, showDeposit? }
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const challenge = await getOwnChallenge(id, auth.payload.userId);
+    if (!challenge) return challengeNotFound();
+
+    const body = await request.json();
+    const { visibility, showDeposit } = body as {
+      visibility?: ChallengeVisibility;
+      showDeposit?: boolean;
+    };
+
+    if (visibility !== undefined && !CHALLENGE_VISIBILITIES.includes(visibility)) {
+      return NextResponse.json(
+        { error: `Visibility must be one of: ${CHALLENGE_VISIBILITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (showDeposit !== undefined && typeof showDeposit !== 'boolean') {
+      return NextResponse.json(
+        { error: 'showDeposit must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await updateChallengeShareSettings(id, { visibility, showDeposit });
+    if (!updated) return challengeNotFound();
+
+    return NextResponse.json({ share: toShareSettings(updated) });
+  } catch (error) {
+    console.error('Update challenge share settings error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Record the owner sharing the link: { channel? }. Returns the link to share,
+// tagged with the channel so that opens can be attributed to it.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await params;
+    const challenge = await getOwnChallenge(id, auth.payload.userId);
+    if (!challenge) return challengeNotFound();
+
+    if (challenge.visibility === 'private') {
+      return NextResponse.json(
+        { error: 'Make the challenge public or unlisted to share it', code: 'challenge_private' },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { channel } = body as { channel?: string };
+    const shareChannel = isShareChannel(channel) ? channel : undefined;
+
+    await trackChallengeShareEvent(challenge.id, 'link_shared', shareChannel ?? null);
+
+    return NextResponse.json({ url: getChallengeShareUrl(challenge.slug, shareChannel) });
+  } catch (error) {
+    console.error('Share challenge error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { withOnChainState } from '@/lib/challenges';
+import { CHALLENGE_STATUSES, listUserChallenges } from '@/lib/db/challenges';
+import { CHALLENGE_TYPES } from '@/lib/onboarding/validation';
+import { ChallengeFilters, ChallengeStatus } from '@/types/challenge';
+import { ChallengeType } from '@/types/onboarding';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Parse an optional positive integer param; NaN marks an invalid value
+function parsePositiveIntParam(value: string | null, fallback: number): number {
+  if (value === null || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 1 ? number : NaN;
+}
+
+// GET - The user's challenges, newest first, with their on-chain state.
+// Filters: ?status= (comma-separated), ?type=; pagination: ?page= (from 1), ?limit=
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { searchParams } = request.nextUrl;
+
+    const statuses = searchParams.get('status')?.split(',').filter(Boolean) || [];
+    const unknownStatus = statuses.find(
+      (status) => !CHALLENGE_STATUSES.includes(status as ChallengeStatus)
+    );
+    if (unknownStatus) {
+      return NextResponse.json(
+        { error: `Unknown challenge status: ${unknownStatus}` },
+        { status: 400 }
+      );
+    }
+
+    const type = searchParams.get('type');
+    if (type && !CHALLENGE_TYPES.includes(type as ChallengeType)) {
+      return NextResponse.json(
+        { error: `Unknown challenge type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    const page = parsePositiveIntParam(searchParams.get('page'), 1);
+    const limit = parsePositiveIntParam(searchParams.get('limit'), DEFAULT_LIMIT);
+    if (Number.isNaN(page) || Number.isNaN(limit)) {
+      return NextResponse.json(
+        { error: 'Invalid pagination' },
+        { status: 400 }
+      );
+    }
+
+    const filters: ChallengeFilters = {
+      statuses: statuses as ChallengeStatus[],
+      type: (type as ChallengeType) || undefined,
+    };
+    const pageSize = Math.min(limit, MAX_LIMIT);
+
+    const { challenges, total } = await listUserChallenges(
+      { id: payload.userId, email: payload.email },
+      filters,
+      pageSize,
+      (page - 1) * pageSize
+    );
+
+    return NextResponse.json({
+      challenges: await Promise.all(challenges.map(withOnChainState)),
+      pagination: {
+        page,
+        limit: pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('List challenges error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
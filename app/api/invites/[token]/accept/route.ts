@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
+import { getChallengeInviteByTokenHash } from '@/lib/db/invites';
+import {
+  createOnboardingSession,
+  getActiveOnboardingSession,
+  hasAcceptedTerms,
+  trackOnboardingEvent,
+  updateOnboardingSession,
+} from '@/lib/db/onboarding';
+import { toSharedDraft } from '@/lib/onboarding/invites';
+import type { ChallengeDraft, OnboardingStep } from '@/types/onboarding';
+
+// POST - Take on the challenge from an invite: copy it into the user's onboarding session.
+// The challenge created from it is linked to the inviter's.
+// Body: { replace?: boolean } - set aside a challenge already being drafted (409 otherwise)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { token } = await params;
+
+    const invite = await getChallengeInviteByTokenHash(hashToken(token));
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'This invite link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    if (invite.inviter_id === payload.userId) {
+      return NextResponse.json(
+        { error: 'You cannot join your own challenge', code: 'own_invite' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    let session = await getActiveOnboardingSession(payload.userId);
+
+    // Already taken on: nothing to copy again
+    if (session?.challenge_draft?.inviteId === invite.id) {
+      return NextResponse.json({ session });
+    }
+
+    // A challenge the user is drafting is only replaced once they confirm it (`replace`).
+    // It is set aside rather than overwritten, and the invite starts a new session.
+    if (session?.challenge_draft?.title) {
+      if (body.replace !== true) {
+        return NextResponse.json(
+          {
+            error: 'You are already setting up a challenge. Replace it with this one?',
+            code: 'draft_in_progress',
+            draftTitle: session.challenge_draft.title,
+          },
+          { status: 409 }
+        );
+      }
+
+      await updateOnboardingSession(session.id, { abandoned_at: new Date() });
+      await trackOnboardingEvent(
+        session.id,
+        payload.userId,
+        'session_abandoned',
+        session.current_step,
+        { replacedByInviteId: invite.id }
+      );
+      session = null;
+    }
+
+    if (!session) {
+      session = await createOnboardingSession(payload.userId);
+      await trackOnboardingEvent(session.id, payload.userId, 'session_started', 'terms');
+    }
+
+    const challengeDraft: ChallengeDraft = {
+      ...toSharedDraft(invite.challenge_draft),
+      aiSuggested: false,
+      inviteId: invite.id,
+    };
+
+    // With the terms accepted, go straight to reviewing the copied challenge
+    const updates: Record<string, unknown> = { challenge_draft: challengeDraft };
+    if (await hasAcceptedTerms(payload.userId)) {
+      updates.current_step = 'challenge-definition';
+      updates.steps_completed = Array.from(
+        new Set<OnboardingStep>([...(session.steps_completed || []), 'terms', 'ai-chat'])
+      );
+    }
+
+    session = await updateOnboardingSession(session.id, updates);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    await trackOnboardingEvent(
+      session.id,
+      payload.userId,
+      'invite_accepted',
+      session.current_step,
+      { inviteId: invite.id, challengeTitle: challengeDraft.title }
+    );
+
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashToken } from '@/lib/auth';
+import { getChallengeInviteByTokenHash, getLinkedChallenge } from '@/lib/db/invites';
+import { toInvitePreview } from '@/lib/onboarding/invites';
+
+// GET - The challenge an invite link points to (public: the link itself is the credential)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const invite = await getChallengeInviteByTokenHash(hashToken(token));
+    if (!invite) {
+      return NextResponse.json(
+        { error: 'This invite link is invalid or has expired' },
+        { status: 404 }
+      );
+    }
+
+    const inviterChallenge = invite.challenge_id
+      ? await getLinkedChallenge(invite.challenge_id)
+      : null;
+
+    return NextResponse.json({ invite: toInvitePreview(invite, inviterChallenge) });
+  } catch (error) {
+    console.error('Get invite error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
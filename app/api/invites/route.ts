@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { getOnboardingSession, trackOnboardingEvent } from '@/lib/db/onboarding';
+import { createInvite } from '@/lib/onboarding/invites';
+import { isValidDraft, validateChallengeDraft } from '@/lib/onboarding/validation';
+import { isUuid } from '@/lib/validation';
+
+// POST - Create an invite link to the challenge drafted in an onboarding session
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const body = await request.json();
+    const { sessionId } = body as { sessionId: string };
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isUuid(sessionId)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getOnboardingSession(sessionId);
+    if (!session || session.user_id !== payload.userId) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // There has to be a challenge to show the friend
+    const draftErrors = validateChallengeDraft(session.challenge_draft || {}, {
+      fields: ['title', 'description'],
+    });
+    if (!isValidDraft(draftErrors)) {
+      return NextResponse.json(
+        {
+          error: Object.values(draftErrors)[0],
+          code: 'invalid_challenge_draft',
+          fields: draftErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const invite = await createInvite(payload.userId, session);
+
+    await trackOnboardingEvent(
+      session.id,
+      payload.userId,
+      'invite_created',
+      session.current_step
+    );
+
+    return NextResponse.json(invite, { status: 201 });
+  } catch (error) {
+    console.error('Create invite error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runAbandonmentJob } from '@/lib/onboarding/abandonment';
+
+// Scheduled job: call periodically (e.g. hourly from cron) with
+// "Authorization: Bearer $CRON_SECRET". Inactivity window: ONBOARDING_ABANDON_AFTER_HOURS.
+function isAuthorizedJobRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const a = Buffer.from(request.headers.get('authorization') || '');
+  const b = Buffer.from(`Bearer ${secret}`);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// GET - Mark inactive onboarding sessions as abandoned and send reminders
+export async function GET(request: NextRequest) {
+  try {
+    if (!process.env.CRON_SECRET) {
+      console.error('Onboarding abandonment job error: CRON_SECRET is not set');
+      return NextResponse.json(
+        { error: 'Job is not configured' },
+        { status: 503 }
+      );
+    }
+
+    if (!isAuthorizedJobRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runAbandonmentJob();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Onboarding abandonment job error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { getAIConversation } from '@/lib/db/onboarding';
+import { isUuid } from '@/lib/validation';
+
+// GET - Reload one of the user's conversations (messages and suggested challenges) to resume it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const { id } = await params;
+
+    const conversation = isUuid(id)
+      ? await getAIConversation(id, payload.userId)
+      : null;
+
+    if (!conversation) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Get AI conversation error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { streamAIResponse } from '@/lib/ai';
+import { saveChatReply, startChatTurn } from '@/lib/ai/conversation';
+import { formatServerSentEvent } from '@/lib/ai/sse';
+import { isUuid } from '@/lib/validation';
+
+// POST - Send message to AI and stream the reply as Server-Sent Events:
+// "delta" ({ text }) while it is generated, "suggestion" (SuggestedChallenge) if one was made,
+// then "done" ({ conversationId, message, suggestedChallenges }) or "error" ({ error }).
+// The turn is only saved once the reply is complete; a cancelled request saves nothing.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const body = await request.json();
+    const { sessionId, conversationId, message } = body as {
+      sessionId: string;
+      conversationId?: string;
+      message: string;
+    };
+
+    if (!message?.trim()) {
+      return NextResponse.json(
+        { error: 'Message is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isUuid(sessionId) || (conversationId !== undefined && !isUuid(conversationId))) {
+      return NextResponse.json(
+        { error: 'Invalid session or conversation ID' },
+        { status: 400 }
+      );
+    }
+
+    const turn = await startChatTurn(payload.userId, { sessionId, conversationId, message });
+    if (!turn) {
+      return NextResponse.json(
+        { error: 'Session or conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Stop generating when the client disconnects or cancels
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+          }
+        };
+
+        try {
+          for await (const event of streamAIResponse(turn.messages, abort.signal)) {
+            if (event.type === 'delta') {
+              send('delta', { text: event.text });
+              continue;
+            }
+
+            const { message: assistantMessage, suggestedChallenges } = await saveChatReply(
+              turn,
+              event.completion
+            );
+
+            if (event.completion.suggestedChallenge) {
+              send('suggestion', event.completion.suggestedChallenge);
+            }
+            send('done', {
+              conversationId: turn.conversation.id,
+              message: assistantMessage,
+              suggestedChallenges,
+            });
+          }
+        } catch (error) {
+          if (!abort.signal.aborted) {
+            console.error('AI chat stream error:', error);
+            send('error', { error: 'Failed to generate a response' });
+          }
+        } finally {
+          if (!abort.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('AI chat error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
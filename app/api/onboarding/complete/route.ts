@@ -1,26 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
 import { query } from '@/lib/db';
 import {
   completeOnboardingWithChallenge,
   trackOnboardingEvent,
   getOnboardingSession,
+  hasAcceptedTerms,
 } from '@/lib/db/onboarding';
+import { getChallengeInvite } from '@/lib/db/invites';
+import { getChallengeTemplate } from '@/lib/db/templates';
+import { getIncompleteSteps } from '@/lib/onboarding/steps';
+import { isValidDraft, validateChallengeDraft } from '@/lib/onboarding/validation';
+import { isUuid } from '@/lib/validation';
 import { ChallengeDraft } from '@/types/onboarding';
 
 // POST - Complete onboarding and create challenge (prepare for payment)
 export async function POST(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload || payload.type !== 'access') {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
 
     const body = await request.json();
     const { sessionId, challengeDraft } = body as {
@@ -35,24 +34,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate required fields
-    if (!challengeDraft.title || !challengeDraft.description) {
-      return NextResponse.json(
-        { error: 'Challenge title and description are required' },
-        { status: 400 }
-      );
-    }
-
-    if (!challengeDraft.depositAmount || challengeDraft.depositAmount < 1) {
-      return NextResponse.json(
-        { error: 'A valid deposit amount is required' },
-        { status: 400 }
-      );
-    }
-
-    if (!challengeDraft.guarantors || challengeDraft.guarantors.length === 0) {
+    if (!isUuid(sessionId)) {
       return NextResponse.json(
-        { error: 'At least one guarantor is required' },
+        { error: 'Invalid session ID' },
         { status: 400 }
       );
     }
@@ -66,9 +50,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The challenge is created from the last step, once the ones before it are done
+    const incompleteSteps = getIncompleteSteps(session);
+    if (incompleteSteps.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Please complete these onboarding steps first: ${incompleteSteps.join(', ')}`,
+          code: 'onboarding_incomplete',
+          steps: incompleteSteps,
+        },
+        { status: 409 }
+      );
+    }
+
     // Get user email
-    const userResult = await query<{ email: string }>(
-      'SELECT email FROM users WHERE id = $1',
+    const userResult = await query<{ email: string; email_verified: boolean }>(
+      'SELECT email, email_verified FROM users WHERE id = $1',
       [payload.userId]
     );
     
@@ -79,8 +76,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Challenges (and the guarantor invites they trigger) require a verified email
+    if (!userResult.rows[0].email_verified) {
+      return NextResponse.json(
+        { error: 'Please verify your email address before creating a challenge', code: 'email_not_verified' },
+        { status: 403 }
+      );
+    }
+
+    // New challenges require the current terms (re-acceptance after they change)
+    if (!(await hasAcceptedTerms(payload.userId))) {
+      return NextResponse.json(
+        { error: 'Please accept the current terms of service before starting a challenge', code: 'terms_not_accepted' },
+        { status: 403 }
+      );
+    }
+
     const userEmail = userResult.rows[0].email;
 
+    // Reject anything the escrow contract would, before the user pays.
+    // The required fields used below are present once this passes.
+    const draftErrors = validateChallengeDraft(challengeDraft, { userEmail });
+    if (!isValidDraft(draftErrors)) {
+      return NextResponse.json(
+        {
+          error: Object.values(draftErrors)[0],
+          code: 'invalid_challenge_draft',
+          fields: draftErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only link templates that exist, so a stale ID doesn't fail the insert
+    const template =
+      challengeDraft.templateId && isUuid(challengeDraft.templateId)
+        ? await getChallengeTemplate(challengeDraft.templateId)
+        : null;
+
+    // A challenge joined through someone else's invite is linked to theirs
+    const invite =
+      challengeDraft.inviteId && isUuid(challengeDraft.inviteId)
+        ? await getChallengeInvite(challengeDraft.inviteId)
+        : null;
+
     // Generate unique challenge ID
     const challengeId = `challenge_${Date.now()}_${Math.random().toString(36).substring(7)}`;
 
@@ -90,12 +129,12 @@ export async function POST(request: NextRequest) {
       payload.userId,
       {
         challenge_id: challengeId,
-        title: challengeDraft.title,
-        description: challengeDraft.description,
+        title: challengeDraft.title!,
+        description: challengeDraft.description!,
         duration_days: challengeDraft.durationDays || 14,
-        amount_usd: challengeDraft.depositAmount,
+        amount_usd: challengeDraft.depositAmount!,
         user_email: userEmail,
-        guarantors: challengeDraft.guarantors,
+        guarantors: challengeDraft.guarantors!,
         challenge_type: challengeDraft.type || 'custom',
         resolution_method: challengeDraft.resolutionMethod || '',
         frequency: challengeDraft.frequency || 'daily',
@@ -105,6 +144,8 @@ export async function POST(request: NextRequest) {
         linked_friend_email: challengeDraft.linkedFriendEmail,
         ai_conversation_id: challengeDraft.aiConversationId,
         ai_suggested: challengeDraft.aiSuggested || false,
+        template_id: template?.id,
+        invite_id: invite && invite.inviter_id !== payload.userId ? invite.id : undefined,
       }
     );
 
@@ -118,7 +159,7 @@ export async function POST(request: NextRequest) {
         challengeId,
         challengeTitle: challengeDraft.title,
         depositAmount: challengeDraft.depositAmount,
-        guarantorCount: challengeDraft.guarantors.length,
+        guarantorCount: challengeDraft.guarantors!.length,
       }
     );
 
@@ -1,30 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
+import { requireAuth } from '@/lib/auth/guard';
 import {
   createOnboardingSession,
   getActiveOnboardingSession,
+  getOnboardingSession,
   updateOnboardingSession,
   trackOnboardingEvent,
   hasAcceptedTerms,
+  getCurrentTermsVersion,
+  resumeOnboardingSession,
+  resumeLatestOnboardingSession,
 } from '@/lib/db/onboarding';
+import { ONBOARDING_STEPS, planStepTransition } from '@/lib/onboarding/steps';
+import {
+  STEP_DRAFT_FIELDS,
+  isValidDraft,
+  validateChallengeDraft,
+} from '@/lib/onboarding/validation';
+import { isUuid } from '@/lib/validation';
 import { OnboardingStep, ChallengeDraft, AIMessage } from '@/types/onboarding';
 
-// GET - Get or create active onboarding session
+// GET - Get or create active onboarding session (?resume=<sessionId> reopens an abandoned one)
 export async function GET(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
 
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload || payload.type !== 'access') {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    // A reminder link reopens the abandoned session it was sent for
+    const resumeId = request.nextUrl.searchParams.get('resume');
+    let session = null;
+    if (resumeId && isUuid(resumeId)) {
+      session = await resumeOnboardingSession(resumeId, payload.userId);
+      if (session) {
+        await trackOnboardingEvent(
+          session.id,
+          payload.userId,
+          'session_resumed',
+          session.current_step
+        );
+      }
     }
 
     // Check for existing active session
-    let session = await getActiveOnboardingSession(payload.userId);
+    if (!session) {
+      session = await getActiveOnboardingSession(payload.userId);
+    }
+
+    // Back without the reminder link (or never reminded): keep the abandoned draft
+    if (!session) {
+      session = await resumeLatestOnboardingSession(payload.userId);
+      if (session) {
+        await trackOnboardingEvent(
+          session.id,
+          payload.userId,
+          'session_resumed',
+          session.current_step
+        );
+      }
+    }
     
     if (!session) {
       // Create new session
@@ -39,12 +73,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if user has already accepted terms
+    // Check if user has accepted the current terms version
     const termsAccepted = await hasAcceptedTerms(payload.userId);
+    const termsVersion = await getCurrentTermsVersion();
 
     return NextResponse.json({
       session,
       termsAccepted,
+      termsVersion,
     });
   } catch (error) {
     console.error('Get onboarding session error:', error);
@@ -55,19 +91,13 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PATCH - Update onboarding session
+// PATCH - Update onboarding session. Step changes go through the onboarding state machine:
+// moving forward requires the steps before the target to be complete, going back is always allowed.
 export async function PATCH(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload || payload.type !== 'access') {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
 
     const body = await request.json();
     const {
@@ -93,25 +123,128 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const updates: Record<string, unknown> = {};
-    
-    if (currentStep) {
-      updates.current_step = currentStep;
-      
-      // Track step change
-      await trackOnboardingEvent(
-        sessionId,
-        payload.userId,
-        'step_started',
-        currentStep,
-        { previousTimeSpent: timeSpentSeconds }
+    if (!isUuid(sessionId)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
       );
     }
-    
-    if (stepsCompleted) {
-      updates.steps_completed = stepsCompleted;
+
+    if (stepsCompleted !== undefined && !Array.isArray(stepsCompleted)) {
+      return NextResponse.json(
+        { error: 'Steps completed must be a list of steps' },
+        { status: 400 }
+      );
     }
-    
+
+    const existing = await getOnboardingSession(sessionId);
+    if (!existing || existing.user_id !== payload.userId) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // A saved draft must keep the fields of completed steps valid, and have every other
+    // step field it sets well-formed, whether or not the session moves
+    if (challengeDraft) {
+      const completedFields = (existing.steps_completed || []).flatMap(
+        (step) => STEP_DRAFT_FIELDS[step] || []
+      );
+      const draftErrors = validateChallengeDraft(challengeDraft, {
+        fields: ONBOARDING_STEPS.flatMap((step) => STEP_DRAFT_FIELDS[step] || []).filter(
+          (field) => completedFields.includes(field) || challengeDraft[field] !== undefined
+        ),
+      });
+      if (!isValidDraft(draftErrors)) {
+        return NextResponse.json(
+          {
+            error: Object.values(draftErrors)[0],
+            code: 'invalid_challenge_draft',
+            fields: draftErrors,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (currentStep || stepsCompleted) {
+      // The server decides which steps are completed; the client can only move the session
+      const targetStep = currentStep || existing.current_step;
+      const draft = challengeDraft || existing.challenge_draft || {};
+      const transition = planStepTransition(
+        existing,
+        targetStep,
+        draft,
+        await hasAcceptedTerms(payload.userId)
+      );
+
+      if (!transition.ok) {
+        return NextResponse.json(
+          {
+            error: transition.error,
+            code: transition.code,
+            currentStep: existing.current_step,
+          },
+          { status: transition.code === 'invalid_step' ? 400 : 409 }
+        );
+      }
+
+      const unverified = (stepsCompleted || []).filter(
+        (step) => !transition.stepsCompleted.includes(step)
+      );
+      if (unverified.length > 0) {
+        return NextResponse.json(
+          {
+            error: `Steps not completed: ${unverified.join(', ')}`,
+            code: 'illegal_step_transition',
+            currentStep: existing.current_step,
+          },
+          { status: 409 }
+        );
+      }
+
+      updates.current_step = targetStep;
+      updates.steps_completed = transition.stepsCompleted;
+
+      // The time spent is for the step being left; record it the first time that step is completed
+      const previousStep = existing.current_step;
+      if (
+        transition.kind === 'advance' &&
+        !(existing.steps_completed || []).includes(previousStep)
+      ) {
+        await trackOnboardingEvent(
+          sessionId,
+          payload.userId,
+          'step_completed',
+          previousStep,
+          {},
+          typeof timeSpentSeconds === 'number' ? timeSpentSeconds : null
+        );
+      }
+
+      if (transition.kind === 'return') {
+        await trackOnboardingEvent(
+          sessionId,
+          payload.userId,
+          'step_returned',
+          targetStep,
+          { fromStep: previousStep, previousTimeSpent: timeSpentSeconds }
+        );
+      } else if (transition.kind === 'advance') {
+        // Track step change
+        await trackOnboardingEvent(
+          sessionId,
+          payload.userId,
+          'step_started',
+          targetStep,
+          { previousTimeSpent: timeSpentSeconds }
+        );
+      }
+    }
+
     if (challengeDraft) {
       updates.challenge_draft = challengeDraft;
     }
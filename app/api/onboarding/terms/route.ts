@@ -1,51 +1,105 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth';
-import { acceptTerms, trackOnboardingEvent, getActiveOnboardingSession, updateOnboardingSession } from '@/lib/db/onboarding';
+import { requireAuth } from '@/lib/auth/guard';
+import { getRequestMetadata } from '@/lib/auth/session';
+import {
+  acceptTerms,
+  getCurrentTermsVersion,
+  getOnboardingSession,
+  getTermsAcceptanceHistory,
+  hasAcceptedTerms,
+  trackOnboardingEvent,
+  updateOnboardingSession,
+} from '@/lib/db/onboarding';
+import { isUuid } from '@/lib/validation';
+
+// GET - Current terms version, whether the user accepted it, and their acceptance history
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
+    const [termsVersion, accepted, history] = await Promise.all([
+      getCurrentTermsVersion(),
+      hasAcceptedTerms(payload.userId),
+      getTermsAcceptanceHistory(payload.userId),
+    ]);
+
+    return NextResponse.json({ termsVersion, accepted, history });
+  } catch (error) {
+    console.error('Get terms error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
 
 // POST - Accept terms and conditions
 export async function POST(request: NextRequest) {
   try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader?.startsWith('Bearer ')) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload || payload.type !== 'access') {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
 
     const body = await request.json();
     const { sessionId, termsVersion } = body as {
-      sessionId: string;
-      termsVersion?: string;
+      sessionId?: string;
+      termsVersion: string;
     };
 
+    if (!termsVersion) {
+      return NextResponse.json(
+        { error: 'Terms version is required' },
+        { status: 400 }
+      );
+    }
+
+    const currentVersion = await getCurrentTermsVersion();
+    if (!currentVersion) {
+      console.error('Accept terms error: no terms version is in effect');
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+
+    // Only the version the user was actually shown can be accepted
+    if (termsVersion !== currentVersion.version) {
+      return NextResponse.json(
+        {
+          error: 'The terms have changed. Please review the current version.',
+          code: 'terms_outdated',
+          termsVersion: currentVersion,
+        },
+        { status: 409 }
+      );
+    }
+
     // Accept terms
-    await acceptTerms(payload.userId);
+    await acceptTerms(payload.userId, currentVersion.id, getRequestMetadata(request));
 
     // Track terms acceptance
-    if (sessionId) {
+    const session = isUuid(sessionId) ? await getOnboardingSession(sessionId) : null;
+    if (session && session.user_id === payload.userId) {
       await trackOnboardingEvent(
-        sessionId,
+        session.id,
         payload.userId,
         'terms_accepted',
         'terms',
-        { termsVersion: termsVersion || '1.0' }
+        { termsVersion: currentVersion.version }
       );
 
-      // Update session to move to next step
-      const session = await getActiveOnboardingSession(payload.userId);
-      if (session) {
-        await updateOnboardingSession(sessionId, {
+      // Move to the next step, unless this was a re-acceptance later in the flow
+      if (session.current_step === 'terms') {
+        await updateOnboardingSession(session.id, {
           current_step: 'ai-chat',
           steps_completed: ['terms'],
         });
       }
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, termsVersion: currentVersion });
   } catch (error) {
     console.error('Accept terms error:', error);
     return NextResponse.json(
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSharedChallengeBySlug, trackChallengeShareEvent } from '@/lib/db/sharing';
+import { isShareChannel } from '@/lib/sharing';
+
+const MAX_SLUG_LENGTH = 80;
+
+// Only the referring site is kept, not the page
+function getReferrerHost(referrer: unknown): string | null {
+  if (typeof referrer !== 'string' || !referrer) return null;
+  try {
+    return new URL(referrer).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+// POST - Record a visitor opening a challenge's public page: { via?, referrer? }.
+// Sent by the page itself, so link previews fetched by messengers are not counted.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const challenge =
+      slug.length <= MAX_SLUG_LENGTH ? await getSharedChallengeBySlug(slug) : null;
+    if (!challenge) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { via, referrer } = body as { via?: string; referrer?: string };
+
+    await trackChallengeShareEvent(
+      challenge.id,
+      'link_opened',
+      isShareChannel(via) ? via : null,
+      { referrer: getReferrerHost(referrer) }
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Track share link open error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import Stripe from "stripe";
+import { requireAuth } from "@/lib/auth/guard";
+import { MFA_REQUIRED_DEPOSIT_USD, isMfaNeededForDeposit } from "@/lib/auth/mfa";
+import { isEmailVerified } from "@/lib/db/auth";
+import { getChallengeInvite } from "@/lib/db/invites";
+import {
+  getAIConversation,
+  getOnboardingSession,
+  hasAcceptedTerms,
+} from "@/lib/db/onboarding";
+import { getChallengeTemplate } from "@/lib/db/templates";
+import { isValidDraft, validateChallengeDraft } from "@/lib/onboarding/validation";
+import { isUuid } from "@/lib/validation";
+import type { OnboardingSession } from "@/types/onboarding";
 
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
 const NEXT_PUBLIC_APP_URL =
@@ -8,16 +21,20 @@ const NEXT_PUBLIC_APP_URL =
 interface CreateCheckoutSessionRequest {
   amount: number; // Amount in USD (cents)
   challengeId?: string; // Optional challenge ID for tracking
-  customerEmail?: string;
   metadata?: Record<string, string>;
 }
 
 /**
  * POST /api/stripe/checkout
  * Creates a Stripe Checkout session for fiat payments
+ * Requires an authenticated user; the session is tagged with their user ID
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
     if (!STRIPE_SECRET_KEY) {
       return NextResponse.json(
         { error: "Stripe not configured" },
@@ -28,7 +45,7 @@ export async function POST(request: NextRequest) {
     const stripe = new Stripe(STRIPE_SECRET_KEY);
 
     const body: CreateCheckoutSessionRequest = await request.json();
-    const { amount, challengeId, customerEmail, metadata } = body;
+    const { amount, challengeId, metadata } = body;
 
     // Validate required fields
     if (!amount || amount <= 0) {
@@ -38,6 +55,129 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Guarantor emails come as a JSON array; they are passed on to the escrow contract
+    let guarantors: unknown;
+    if (metadata?.guarantors) {
+      try {
+        guarantors = JSON.parse(metadata.guarantors);
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid guarantors" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Reject anything the escrow contract would, before the card is charged
+    const draftErrors = validateChallengeDraft(
+      {
+        depositAmount: amount,
+        ...(metadata?.challengeDuration && {
+          durationDays: Number(metadata.challengeDuration),
+        }),
+        ...(metadata?.guarantorsCount && {
+          guarantorsCount: Number(metadata.guarantorsCount),
+        }),
+        ...(guarantors !== undefined && {
+          guarantors: guarantors as string[],
+        }),
+      },
+      {
+        fields: [
+          "depositAmount",
+          "durationDays",
+          "guarantorsCount",
+          ...(guarantors !== undefined ? (["guarantors"] as const) : []),
+        ],
+        userEmail: payload.email,
+      },
+    );
+    if (!isValidDraft(draftErrors)) {
+      return NextResponse.json(
+        {
+          error: Object.values(draftErrors)[0],
+          code: "invalid_challenge_draft",
+          fields: draftErrors,
+        },
+        { status: 400 },
+      );
+    }
+
+    // Challenges (and the guarantor invites they trigger) require a verified email
+    if (!(await isEmailVerified(payload.userId))) {
+      return NextResponse.json(
+        {
+          error: "Please verify your email address before creating a challenge",
+          code: "email_not_verified",
+        },
+        { status: 403 },
+      );
+    }
+
+    // New challenges require the current terms (re-acceptance after they change)
+    if (!(await hasAcceptedTerms(payload.userId))) {
+      return NextResponse.json(
+        {
+          error: "Please accept the current terms of service before starting a challenge",
+          code: "terms_not_accepted",
+        },
+        { status: 403 },
+      );
+    }
+
+    // Deposits that take the account over the 2FA threshold need 2FA first
+    if (
+      await isMfaNeededForDeposit(
+        { id: payload.userId, email: payload.email },
+        amount
+      )
+    ) {
+      return NextResponse.json(
+        {
+          error: `Turn on two-factor authentication to have more than $${MFA_REQUIRED_DEPOSIT_USD} at stake`,
+          code: "mfa_required",
+        },
+        { status: 403 },
+      );
+    }
+
+    // The onboarding session the challenge was drafted in, so the webhook can link it
+    // to the invites sent from there, and to the invite, template or AI conversation
+    // its draft came from
+    let onboardingSession: OnboardingSession | null = null;
+    if (metadata?.onboardingSessionId) {
+      onboardingSession = isUuid(metadata.onboardingSessionId)
+        ? await getOnboardingSession(metadata.onboardingSessionId)
+        : null;
+      if (!onboardingSession || onboardingSession.user_id !== payload.userId) {
+        return NextResponse.json(
+          { error: "Invalid session" },
+          { status: 403 },
+        );
+      }
+    }
+
+    // Only link rows that exist, so a stale ID doesn't fail the insert
+    const draft = onboardingSession?.challenge_draft || {};
+    const invite =
+      draft.inviteId && isUuid(draft.inviteId)
+        ? await getChallengeInvite(draft.inviteId)
+        : null;
+    const template =
+      draft.templateId && isUuid(draft.templateId)
+        ? await getChallengeTemplate(draft.templateId)
+        : null;
+    const aiConversation =
+      draft.aiConversationId && isUuid(draft.aiConversationId)
+        ? await getAIConversation(draft.aiConversationId, payload.userId)
+        : null;
+    const links = {
+      onboardingSessionId: onboardingSession?.id || "",
+      inviteId: invite && invite.inviter_id !== payload.userId ? invite.id : "",
+      templateId: template?.id || "",
+      aiConversationId: aiConversation?.id || "",
+    };
+
     // Convert amount to cents (Stripe expects amounts in the smallest currency unit)
     const amountInCents = Math.round(amount * 100);
 
@@ -64,17 +204,22 @@ export async function POST(request: NextRequest) {
       mode: "payment",
       success_url: `${NEXT_PUBLIC_APP_URL}/deposit/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${NEXT_PUBLIC_APP_URL}/deposit/cancelled`,
-      customer_email: customerEmail,
+      // The challenge is stored under this email; always the signed-in user's
+      customer_email: payload.email,
       metadata: {
+        ...metadata,
         challengeId: challengeId || "",
         type: "challenge_deposit",
-        ...metadata,
+        userId: payload.userId,
+        ...links,
       },
       payment_intent_data: {
         metadata: {
+          ...metadata,
           challengeId: challengeId || "",
           type: "challenge_deposit",
-          ...metadata,
+          userId: payload.userId,
+          ...links,
         },
       },
     });
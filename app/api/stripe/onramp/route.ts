@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth/guard";
 
 const STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY;
 const STRIPE_API_URL = "https://api.stripe.com/v1/crypto/onramp_sessions";
@@ -29,9 +30,14 @@ interface OnrampSessionResponse {
 /**
  * POST /api/stripe/onramp
  * Creates a Stripe Crypto Onramp session for converting fiat to USDC
+ * Requires an authenticated user
  */
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+    const { payload } = auth;
+
     if (!STRIPE_SECRET_KEY) {
       return NextResponse.json(
         { error: "Stripe not configured" },
@@ -108,9 +114,10 @@ export async function POST(request: NextRequest) {
     formData.append("lock_wallet_address", "true");
 
     // Optional: pre-fill customer info
-    if (customerEmail) {
-      formData.append("customer_information[email]", customerEmail);
-    }
+    formData.append(
+      "customer_information[email]",
+      customerEmail || payload.email
+    );
     if (customerFirstName) {
       formData.append("customer_information[first_name]", customerFirstName);
     }
@@ -117,6 +117,12 @@ async function handleSuccessfulPayment(session: Stripe.Checkout.Session) {
   const challengeDuration = parseInt(metadata.challengeDuration || "30", 10);
   const metadataUri = metadata.metadataUri || "";
   const guarantorsJson = metadata.guarantors || "[]";
+  // Set by the checkout route from the signed-in user and their onboarding session
+  const userId = metadata.userId || undefined;
+  const inviteId = metadata.inviteId || undefined;
+  const onboardingSessionId = metadata.onboardingSessionId || undefined;
+  const templateId = metadata.templateId || undefined;
+  const aiConversationId = metadata.aiConversationId || undefined;
   
   let guarantors: string[] = [];
   try {
@@ -151,6 +157,11 @@ async function handleSuccessfulPayment(session: Stripe.Checkout.Session) {
         durationDays: challengeDuration,
         amountUsd: amountUSD,
         userEmail: session.customer_details?.email || "",
+        userId,
+        inviteId,
+        templateId,
+        aiConversationId,
+        onboardingSessionId,
         guarantors,
         stripeSessionId: session.id,
         stripePaymentIntentId: session.payment_intent as string,
@@ -205,6 +216,11 @@ async function handleSuccessfulPayment(session: Stripe.Checkout.Session) {
         durationDays: challengeDuration,
         amountUsd: amountUSD,
         userEmail: session.customer_details?.email || "",
+        userId,
+        inviteId,
+        templateId,
+        aiConversationId,
+        onboardingSessionId,
         guarantors,
         stripeSessionId: session.id,
         stripePaymentIntentId: session.payment_intent as string,
@@ -239,6 +255,11 @@ async function handleSuccessfulPayment(session: Stripe.Checkout.Session) {
         durationDays: challengeDuration,
         amountUsd: amountUSD,
         userEmail: session.customer_details?.email || "",
+        userId,
+        inviteId,
+        templateId,
+        aiConversationId,
+        onboardingSessionId,
         guarantors,
         stripeSessionId: session.id,
         stripePaymentIntentId: session.payment_intent as string,
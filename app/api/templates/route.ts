@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth/guard';
+import { listChallengeTemplates } from '@/lib/db/templates';
+import { CHALLENGE_TYPES } from '@/lib/onboarding/validation';
+import { ChallengeTemplateFilters, ChallengeType } from '@/types/onboarding';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+const MAX_SEARCH_LENGTH = 100;
+
+// Parse an optional non-negative number param; NaN marks an invalid value
+function parseNumberParam(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : NaN;
+}
+
+// GET - Browse challenge templates.
+// Filters: ?type=, ?minDuration= / ?maxDuration= (days), ?minDeposit= / ?maxDeposit= (USD), ?q= (title or description), ?limit=
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+    if (!auth.ok) return auth.response;
+
+    const { searchParams } = request.nextUrl;
+
+    const type = searchParams.get('type');
+    if (type && !CHALLENGE_TYPES.includes(type as ChallengeType)) {
+      return NextResponse.json(
+        { error: `Unknown challenge type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    const filters: ChallengeTemplateFilters = {
+      type: (type as ChallengeType) || undefined,
+      minDurationDays: parseNumberParam(searchParams.get('minDuration')),
+      maxDurationDays: parseNumberParam(searchParams.get('maxDuration')),
+      minDeposit: parseNumberParam(searchParams.get('minDeposit')),
+      maxDeposit: parseNumberParam(searchParams.get('maxDeposit')),
+      search: searchParams.get('q')?.slice(0, MAX_SEARCH_LENGTH) || undefined,
+    };
+    const limit = parseNumberParam(searchParams.get('limit')) ?? DEFAULT_LIMIT;
+
+    const ranges = [
+      [filters.minDurationDays, filters.maxDurationDays],
+      [filters.minDeposit, filters.maxDeposit],
+    ];
+    if (
+      ranges.flat().some((value) => Number.isNaN(value)) ||
+      ranges.some(([min, max]) => min !== undefined && max !== undefined && min > max) ||
+      !Number.isInteger(limit) ||
+      limit < 1
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid filters' },
+        { status: 400 }
+      );
+    }
+
+    // Durations are whole days
+    if (filters.minDurationDays !== undefined) {
+      filters.minDurationDays = Math.ceil(filters.minDurationDays);
+    }
+    if (filters.maxDurationDays !== undefined) {
+      filters.maxDurationDays = Math.floor(filters.maxDurationDays);
+    }
+
+    const templates = await listChallengeTemplates(filters, Math.min(limit, MAX_LIMIT));
+
+    return NextResponse.json({ templates });
+  } catch (error) {
+    console.error('List challenge templates error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { ImageResponse } from "next/og";
+import { getSharedChallengeBySlug } from "@/lib/db/sharing";
+import { getSharedChallengeStats } from "@/lib/sharing";
+
+export const alt = "A Showup challenge";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+// Link preview for a shared challenge, as unfurled by messengers and social networks
+export default async function Image({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const challenge = await getSharedChallengeBySlug(slug);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: "72px 80px",
+          background: "#ffffff",
+          color: "#1a1a1a",
+          fontFamily: "serif",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 32, fontWeight: 700 }}>
+          Showup
+        </div>
+
+        {challenge ? (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 30, color: "#7a7a7a" }}>
+              {`${challenge.ownerName} is putting money on it`}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                marginTop: 16,
+                fontSize: challenge.title.length > 40 ? 60 : 76,
+                fontWeight: 700,
+                lineHeight: 1.1,
+              }}
+            >
+              {challenge.title}
+            </div>
+          </div>
+        ) : (
+          <div style={{ display: "flex", fontSize: 76, fontWeight: 700 }}>
+            Personal challenges with real stakes
+          </div>
+        )}
+
+        <div style={{ display: "flex", gap: 24 }}>
+          {challenge &&
+            getSharedChallengeStats(challenge).map((stat) => (
+              <div
+                key={stat.label}
+                style={{
+                  display: "flex",
+                  flexDirection: "column",
+                  padding: "20px 36px",
+                  borderRadius: 24,
+                  background: "#f5f5f5",
+                }}
+              >
+                <div style={{ display: "flex", fontSize: 48, fontWeight: 700 }}>
+                  {stat.value}
+                </div>
+                <div style={{ display: "flex", fontSize: 26, color: "#7a7a7a" }}>
+                  {stat.label}
+                </div>
+              </div>
+            ))}
+        </div>
+      </div>
+    ),
+    size,
+  );
+}
@@ -0,0 +1,128 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Navbar } from "@/components/Navbar";
+import { ShareLinkTracker } from "@/components/ShareLinkTracker";
+import { getSharedChallengeBySlug } from "@/lib/db/sharing";
+import {
+  CHALLENGE_STATUS_LABELS,
+  getChallengeShareUrl,
+  getSharedChallengeStats,
+} from "@/lib/sharing";
+
+interface SharedChallengePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Shared by the metadata and the page within a request
+const getSharedChallenge = cache(getSharedChallengeBySlug);
+
+export async function generateMetadata({
+  params,
+}: SharedChallengePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const challenge = await getSharedChallenge(slug);
+
+  if (!challenge) {
+    return { title: "Challenge Not Found - Showup" };
+  }
+
+  const title = `${challenge.ownerName}'s challenge: ${challenge.title}`;
+  const description = getSharedChallengeStats(challenge)
+    .map((stat) => `${stat.value} ${stat.label}`)
+    .join(" | ");
+
+  return {
+    title: `${challenge.title} - Showup`,
+    description,
+    openGraph: {
+      title,
+      description,
+      url: getChallengeShareUrl(challenge.slug),
+      siteName: "Showup",
+      type: "website",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+    // Unlisted challenges are only for those who have the link
+    robots:
+      challenge.visibility === "public"
+        ? undefined
+        : { index: false, follow: false },
+  };
+}
+
+export default async function SharedChallengePage({
+  params,
+}: SharedChallengePageProps) {
+  const { slug } = await params;
+  const challenge = await getSharedChallenge(slug);
+
+  if (!challenge) {
+    notFound();
+  }
+
+  const stats = getSharedChallengeStats(challenge);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <ShareLinkTracker slug={challenge.slug} />
+
+      <div className="flex items-center justify-center p-4 pt-28">
+        <div className="w-full max-w-md">
+          <div className="rounded-2xl neumorphic p-8">
+            <p className="text-sm text-muted-foreground text-center">
+              {challenge.ownerName} is putting money on it
+            </p>
+            <h1 className="mt-2 text-2xl font-serif font-bold text-foreground text-center">
+              {challenge.title}
+            </h1>
+            {challenge.description && (
+              <p className="mt-3 text-muted-foreground text-center">
+                {challenge.description}
+              </p>
+            )}
+
+            <div
+              className={`mt-6 grid gap-3 text-center ${stats.length === 3 ? "grid-cols-3" : "grid-cols-2"}`}
+            >
+              {stats.map((stat) => (
+                <div key={stat.label} className="rounded-xl bg-muted p-3">
+                  <p className="text-xl font-semibold">{stat.value}</p>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-3 rounded-xl border border-border p-4 text-sm">
+              <p className="font-medium">
+                {CHALLENGE_STATUS_LABELS[challenge.status] || challenge.status}
+              </p>
+              {challenge.endsAt && (
+                <p className="text-muted-foreground mt-1">
+                  Ends {new Date(challenge.endsAt).toLocaleDateString("en-US", {
+                    month: "long",
+                    day: "numeric",
+                    year: "numeric",
+                  })}
+                </p>
+              )}
+            </div>
+
+            <Link
+              href="/onboarding"
+              className="mt-8 block w-full rounded-xl bg-primary py-3 text-center font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02]"
+            >
+              Start your own challenge
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
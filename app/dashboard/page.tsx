@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Navbar } from "@/components/Navbar";
+import { Badge } from "@/components/ui/badge";
+import { getAuthHeaders } from "@/lib/auth/client";
+import { getChallengePath } from "@/lib/sharing";
+import { ChallengeState, ChallengeStateLabels } from "@/types/contracts";
+import type { Challenge } from "@/types/challenge";
+import {
+  AlertCircle,
+  Clock,
+  Gavel,
+  Loader2,
+  Plus,
+  Users,
+} from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+type NextActionKind = "check-in" | "report" | "vote" | "finalize";
+
+interface NextAction {
+  kind: NextActionKind;
+  label: string;
+  description: string;
+}
+
+// Escrow state of a challenge: live from the contract, or else from its last known status
+function getEscrowState(challenge: Challenge): ChallengeState | null {
+  if (challenge.onChain) return challenge.onChain.state;
+
+  switch (challenge.status) {
+    case "created":
+      return ChallengeState.ACTIVE;
+    case "voting":
+      return ChallengeState.FAILED_PENDING_INSURANCE;
+    case "completed":
+    case "redeemed":
+      return ChallengeState.COMPLETED;
+    default:
+      // Awaiting payment, or never made it into escrow
+      return null;
+  }
+}
+
+function toTime(date: Date | string | null | undefined): number | null {
+  return date ? new Date(date).getTime() : null;
+}
+
+function getNextAction(
+  challenge: Challenge,
+  state: ChallengeState | null,
+  now: number,
+): NextAction | null {
+  const endsAt = toTime(challenge.onChain?.endsAt ?? challenge.endsAt);
+  const votingDeadline = toTime(challenge.onChain?.votingDeadline);
+  const remediationDeadline = toTime(challenge.onChain?.remediationDeadline);
+
+  switch (state) {
+    case ChallengeState.ACTIVE:
+      if (endsAt === null || now < endsAt) {
+        return {
+          kind: "check-in",
+          label: "Check in",
+          description: challenge.resolutionMethod
+            ? `Send your proof to your guarantors: ${challenge.resolutionMethod}`
+            : "Send your proof to your guarantors.",
+        };
+      }
+      return {
+        kind: "report",
+        label: "Report the result",
+        description: "The challenge is over. Report how it went so your deposit can be settled.",
+      };
+    case ChallengeState.FAILED_PENDING_INSURANCE:
+      if (votingDeadline === null || now < votingDeadline) {
+        return {
+          kind: "vote",
+          label: "Guarantors are voting",
+          description: "Your guarantors decide whether you get a path of redemption.",
+        };
+      }
+      return {
+        kind: "finalize",
+        label: "Finalize the vote",
+        description: "Voting has closed. Finalize it to apply your guarantors' decision.",
+      };
+    case ChallengeState.REMEDIATION_ACTIVE:
+      if (remediationDeadline === null || now < remediationDeadline) {
+        return {
+          kind: "check-in",
+          label: "Complete your redemption",
+          description: "Check in with your guarantors to earn your deposit back.",
+        };
+      }
+      return {
+        kind: "finalize",
+        label: "Finalize your redemption",
+        description: "The redemption period is over. Finalize it to settle your deposit.",
+      };
+    default:
+      return null;
+  }
+}
+
+function formatTimeLeft(until: number, now: number): string {
+  const seconds = Math.floor((until - now) / 1000);
+  if (seconds <= 0) return "Ended";
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes}m left`;
+  return `${minutes}m ${seconds % 60}s left`;
+}
+
+function getGuarantorStatus(challenge: Challenge): string {
+  const voting = challenge.onChain?.voting;
+  if (!voting) {
+    const count = challenge.guarantors.length;
+    return `${count} ${count === 1 ? "guarantor" : "guarantors"}`;
+  }
+
+  const responded = voting.yesVotes + voting.noVotes;
+  if (responded === 0) {
+    return `${voting.guarantors.length} guarantors, no votes yet (${voting.requiredVotes} needed)`;
+  }
+  return `${responded} of ${voting.guarantors.length} guarantors voted: ${voting.yesVotes} for redemption, ${voting.noVotes} against (${voting.requiredVotes} needed)`;
+}
+
+function Deadline({
+  label,
+  date,
+  now,
+}: {
+  label: string;
+  date: string | Date | null | undefined;
+  now: number;
+}) {
+  const time = toTime(date);
+  if (time === null) return null;
+
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium" title={new Date(time).toLocaleString()}>
+        {formatTimeLeft(time, now)}
+      </span>
+    </div>
+  );
+}
+
+function ChallengeCard({ challenge, now }: { challenge: Challenge; now: number }) {
+  const state = getEscrowState(challenge);
+  const nextAction = getNextAction(challenge, state, now);
+  const isFinished =
+    state === ChallengeState.COMPLETED || state === ChallengeState.FAILED_FINAL;
+
+  return (
+    <div className="rounded-2xl neumorphic p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-serif font-bold text-foreground">
+            {challenge.title}
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            ${challenge.amountUsd} | {challenge.durationDays} days
+          </p>
+        </div>
+        {state !== null ? (
+          <Badge
+            variant={
+              state === ChallengeState.FAILED_FINAL
+                ? "destructive"
+                : isFinished
+                  ? "secondary"
+                  : "default"
+            }
+          >
+            {ChallengeStateLabels[state]}
+          </Badge>
+        ) : (
+          <Badge variant={challenge.status === "failed" ? "destructive" : "outline"}>
+            {challenge.status === "failed" ? "Setup failed" : "Setting up"}
+          </Badge>
+        )}
+      </div>
+
+      {state === null && (
+        <p className="mt-4 text-sm text-muted-foreground">
+          {challenge.status === "failed"
+            ? "Something went wrong locking your deposit in escrow. Please contact support."
+            : "Your deposit is being locked in escrow. This usually takes a few minutes."}
+        </p>
+      )}
+
+      {state !== null && !isFinished && (
+        <div className="mt-4 space-y-2">
+          <Deadline
+            label="Challenge ends"
+            date={challenge.onChain?.endsAt ?? challenge.endsAt}
+            now={now}
+          />
+          {state === ChallengeState.FAILED_PENDING_INSURANCE && (
+            <Deadline
+              label="Voting closes"
+              date={challenge.onChain?.votingDeadline}
+              now={now}
+            />
+          )}
+          {state === ChallengeState.REMEDIATION_ACTIVE && (
+            <Deadline
+              label="Redemption ends"
+              date={challenge.onChain?.remediationDeadline}
+              now={now}
+            />
+          )}
+        </div>
+      )}
+
+      <p className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <Users className="h-4 w-4 shrink-0" />
+        {getGuarantorStatus(challenge)}
+      </p>
+
+      {nextAction && (
+        <div className="mt-4 rounded-xl bg-accent p-4 text-sm text-accent-foreground">
+          <p className="font-medium flex items-center gap-2">
+            {nextAction.kind === "vote" || nextAction.kind === "finalize" ? (
+              <Gavel className="h-4 w-4" />
+            ) : (
+              <Clock className="h-4 w-4" />
+            )}
+            {nextAction.label}
+          </p>
+          <p className="mt-1">{nextAction.description}</p>
+        </div>
+      )}
+
+      {challenge.slug && challenge.visibility !== "private" && (
+        <Link
+          href={getChallengePath(challenge.slug)}
+          className="mt-4 inline-block text-sm font-medium text-foreground underline underline-offset-4"
+        >
+          View public page
+        </Link>
+      )}
+    </div>
+  );
+}
+
+export default function DashboardPage() {
+  const [challenges, setChallenges] = useState<Challenge[] | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [needsAccount, setNeedsAccount] = useState(false);
+  const [error, setError] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the countdowns ticking
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadChallenges = async (pageToLoad: number) => {
+    try {
+      const response = await fetch(
+        `/api/challenges?page=${pageToLoad}&limit=${PAGE_SIZE}`,
+        { headers: getAuthHeaders() },
+      );
+      if (response.status === 401) {
+        setNeedsAccount(true);
+        setChallenges([]);
+        return;
+      }
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load challenges");
+      }
+
+      setChallenges((previous) =>
+        pageToLoad === 1 ? data.challenges : [...(previous || []), ...data.challenges],
+      );
+      setPage(pageToLoad);
+      setTotalPages(data.pagination.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load challenges");
+      setChallenges((previous) => previous || []);
+    }
+  };
+
+  useEffect(() => {
+    loadChallenges(1);
+  }, []);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    await loadChallenges(page + 1);
+    setIsLoadingMore(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="mx-auto max-w-3xl px-4 pt-28 pb-16">
+        <div className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-serif font-bold text-foreground">
+            Your Challenges
+          </h1>
+          <Link
+            href="/onboarding"
+            className="flex items-center gap-2 rounded-xl bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02]"
+          >
+            <Plus className="h-4 w-4" />
+            New challenge
+          </Link>
+        </div>
+
+        {challenges === null && (
+          <div className="rounded-2xl neumorphic p-8 text-center">
+            <Loader2 className="mx-auto h-10 w-10 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 flex items-center gap-2 rounded-xl bg-destructive/10 p-4 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {needsAccount && (
+          <div className="rounded-2xl neumorphic p-8 text-center">
+            <p className="text-muted-foreground">
+              Sign up or log in above to see your challenges.
+            </p>
+          </div>
+        )}
+
+        {challenges && challenges.length === 0 && !needsAccount && !error && (
+          <div className="rounded-2xl neumorphic p-8 text-center">
+            <p className="text-muted-foreground">
+              You don&apos;t have any challenges yet.
+            </p>
+            <Link
+              href="/onboarding"
+              className="mt-6 inline-block rounded-xl bg-primary px-6 py-3 font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02]"
+            >
+              Create your first challenge
+            </Link>
+          </div>
+        )}
+
+        {challenges && challenges.length > 0 && (
+          <div className="space-y-4">
+            {challenges.map((challenge) => (
+              <ChallengeCard key={challenge.id} challenge={challenge} now={now} />
+            ))}
+          </div>
+        )}
+
+        {page < totalPages && (
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoadingMore}
+            className="mt-6 block w-full rounded-xl border border-border py-3 font-medium text-foreground transition-all duration-300 hover:bg-muted disabled:opacity-50"
+          >
+            {isLoadingMore ? "Loading..." : "Load more"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { Navbar } from "@/components/Navbar";
+import { getAuthHeaders, isSignedIn } from "@/lib/auth/client";
+import { CHALLENGE_STATUS_LABELS } from "@/lib/sharing";
+import { ChallengeInvitePreview, FrequencyType } from "@/types/onboarding";
+import { AlertCircle, Calendar, DollarSign, Loader2, Users } from "lucide-react";
+
+const FREQUENCY_LABELS: Record<FrequencyType, string> = {
+  daily: "Every day",
+  weekly: "Every week",
+  "specific-days": "On specific days",
+  custom: "Custom schedule",
+};
+
+export default function JoinChallengePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [invite, setInvite] = useState<ChallengeInvitePreview | null>(null);
+  const [error, setError] = useState("");
+  const [isJoining, setIsJoining] = useState(false);
+  const [needsAccount, setNeedsAccount] = useState(false);
+  // Title of the challenge the user is already drafting, while asking to replace it
+  const [draftInProgress, setDraftInProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadInvite = async () => {
+      try {
+        const response = await fetch(`/api/invites/${encodeURIComponent(token)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load invite");
+        }
+
+        setInvite(data.invite);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load invite");
+      }
+    };
+
+    loadInvite();
+  }, [token]);
+
+  // Copy the friend's challenge into our own onboarding
+  const handleJoin = async (replace = false) => {
+    localStorage.removeItem("pendingInvite");
+    setIsJoining(true);
+    try {
+      const response = await fetch(
+        `/api/invites/${encodeURIComponent(token)}/accept`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+          body: JSON.stringify({ replace }),
+        },
+      );
+      if (response.status === 401) {
+        // Picked up by onboarding after signing up
+        localStorage.setItem("pendingInvite", token);
+        setNeedsAccount(true);
+        setIsJoining(false);
+        return;
+      }
+      const data = await response.json();
+
+      if (response.status === 409 && data.code === "draft_in_progress") {
+        setDraftInProgress(data.draftTitle);
+        setIsJoining(false);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to join challenge");
+      }
+
+      router.push("/onboarding");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to join challenge");
+      setIsJoining(false);
+    }
+  };
+
+  // Start onboarding without the friend's challenge
+  const handleCreateOwn = () => {
+    localStorage.removeItem("pendingInvite");
+    if (isSignedIn()) {
+      router.push("/onboarding");
+    } else {
+      setNeedsAccount(true);
+    }
+  };
+
+  const challenge = invite?.challenge;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="flex items-center justify-center p-4 pt-28">
+        <div className="w-full max-w-md">
+          {!invite && !error && (
+            <div className="rounded-2xl neumorphic p-8 text-center">
+              <Loader2 className="mx-auto h-10 w-10 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!invite && error && (
+            <div className="rounded-2xl neumorphic p-8 text-center">
+              <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+                <AlertCircle className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <h1 className="text-2xl font-serif font-bold text-foreground">
+                Invite Not Found
+              </h1>
+              <p className="mt-2 text-muted-foreground">{error}</p>
+              <Link
+                href="/"
+                className="mt-8 block w-full rounded-xl border border-border py-3 font-medium text-foreground transition-all duration-300 hover:bg-muted"
+              >
+                Return Home
+              </Link>
+            </div>
+          )}
+
+          {invite && challenge && (
+            <div className="rounded-2xl neumorphic p-8">
+              <p className="text-sm text-muted-foreground text-center">
+                {invite.inviterName} invited you to take on their challenge
+              </p>
+              <h1 className="mt-2 text-2xl font-serif font-bold text-foreground text-center">
+                {challenge.title}
+              </h1>
+              {challenge.description && (
+                <p className="mt-3 text-muted-foreground text-center">
+                  {challenge.description}
+                </p>
+              )}
+
+              <div className="mt-6 grid grid-cols-2 gap-3 text-sm">
+                <div className="rounded-xl bg-muted p-3">
+                  <Calendar className="h-4 w-4 text-muted-foreground mb-1" />
+                  <p className="font-medium">
+                    {challenge.durationDays || 14} days
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {FREQUENCY_LABELS[challenge.frequency || "daily"]}
+                  </p>
+                </div>
+                <div className="rounded-xl bg-muted p-3">
+                  <DollarSign className="h-4 w-4 text-muted-foreground mb-1" />
+                  <p className="font-medium">${challenge.depositAmount || 50}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Deposit, returned on success
+                  </p>
+                </div>
+              </div>
+
+              {challenge.resolutionMethod && (
+                <div className="mt-3 rounded-xl bg-accent p-4 text-sm text-accent-foreground">
+                  <strong>How it&apos;s verified:</strong>{" "}
+                  {challenge.resolutionMethod}
+                </div>
+              )}
+
+              {invite.inviterChallenge && (
+                <div className="mt-3 rounded-xl border border-border p-4 text-sm">
+                  <p className="font-medium flex items-center gap-2">
+                    <Users className="h-4 w-4" />
+                    {invite.inviterName}&apos;s progress
+                  </p>
+                  <p className="text-muted-foreground mt-1">
+                    {CHALLENGE_STATUS_LABELS[invite.inviterChallenge.status] ||
+                      invite.inviterChallenge.status}
+                    {invite.inviterChallenge.endsAt &&
+                      ` | ends ${new Date(invite.inviterChallenge.endsAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              )}
+
+              {error && (
+                <p className="mt-4 text-sm text-destructive text-center">
+                  {error}
+                </p>
+              )}
+
+              {needsAccount && (
+                <p className="mt-4 rounded-xl bg-accent p-3 text-sm text-accent-foreground text-center">
+                  Sign up or log in above to continue.
+                </p>
+              )}
+
+              {draftInProgress !== null ? (
+                <div className="mt-8 space-y-3">
+                  <p className="rounded-xl bg-accent p-3 text-sm text-accent-foreground text-center">
+                    You&apos;re already setting up &quot;{draftInProgress}&quot;.
+                    Set it aside and take on this challenge instead?
+                  </p>
+                  <button
+                    onClick={() => handleJoin(true)}
+                    disabled={isJoining}
+                    className="block w-full rounded-xl bg-primary py-3 font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02] disabled:opacity-50"
+                  >
+                    {isJoining ? "Joining..." : "Take on this challenge instead"}
+                  </button>
+                  <button
+                    onClick={() => router.push("/onboarding")}
+                    className="block w-full rounded-xl border border-border py-3 font-medium text-foreground transition-all duration-300 hover:bg-muted"
+                  >
+                    Keep my challenge
+                  </button>
+                </div>
+              ) : (
+                <div className="mt-8 space-y-3">
+                  <button
+                    onClick={() => handleJoin()}
+                    disabled={isJoining}
+                    className="block w-full rounded-xl bg-primary py-3 font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02] disabled:opacity-50"
+                  >
+                    {isJoining ? "Joining..." : "Take on this challenge too"}
+                  </button>
+                  <button
+                    onClick={handleCreateOwn}
+                    className="block w-full rounded-xl border border-border py-3 font-medium text-foreground transition-all duration-300 hover:bg-muted"
+                  >
+                    Create my own challenge
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
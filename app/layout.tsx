@@ -20,6 +20,7 @@ const crimsonText = Crimson_Text({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"),
   title: "Showup - Personal Challenges with Real Stakes",
   description: "Create accountable challenges with deposits and friends. Fiat or crypto-backed escrow for motivation.",
   icons: {
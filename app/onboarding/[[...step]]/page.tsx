@@ -8,12 +8,26 @@ import {
   OnboardingStep,
   ChallengeDraft,
   AIMessage,
+  AIConversationSummary,
+  ChallengeTemplate,
   SuggestedChallenge,
+  TermsVersion,
   ChallengeType,
   FrequencyType,
 } from "@/types/onboarding";
 import Letter3DSwap from "@/components/fancy/text/letter-3d-swap";
 import { StripeCheckout } from "@/components/web3/StripeCheckout";
+import { getAuthHeaders, isSignedIn } from "@/lib/auth/client";
+import { readServerSentEvents } from "@/lib/ai/sse";
+import { markFieldsReviewed, needsReview } from "@/lib/ai/extraction";
+import {
+  isValidDraft,
+  MAX_DEPOSIT_USD,
+  STEP_DRAFT_FIELDS,
+  validateChallengeDraft,
+} from "@/lib/onboarding/validation";
+import { templateToDraft } from "@/lib/onboarding/templates";
+import { isOnboardingStep } from "@/lib/onboarding/steps";
 import {
   FileText,
   MessageCircle,
@@ -26,9 +40,12 @@ import {
   ChevronRight,
   ChevronLeft,
   Send,
+  Square,
   Sparkles,
   ArrowRight,
   Layers2,
+  AlertCircle,
+  History,
 } from "lucide-react";
 
 const STEPS: { key: OnboardingStep; icon: typeof FileText; label: string }[] = [
@@ -109,6 +126,35 @@ const DEPOSIT_OPTIONS = [
   { amount: 250, label: "$250", description: "Maximum commitment" },
 ];
 
+// Each step has its own URL: /onboarding/<step>
+function getStepUrl(step: OnboardingStep): string {
+  return `/onboarding/${step}`;
+}
+
+function getStepFromPath(pathname: string): OnboardingStep | null {
+  const [, section, step] = pathname.split("/");
+  return section === "onboarding" && isOnboardingStep(step) ? step : null;
+}
+
+// Marks a field the AI filled in without being sure about it
+function ReviewHint({ show }: { show: boolean }) {
+  if (!show) return null;
+
+  return (
+    <span className="ml-2 inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+      <AlertCircle className="h-3 w-3" />
+      Suggested by AI - please review
+    </span>
+  );
+}
+
+// Why a field on the current step is not valid yet
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+
+  return <p className="text-xs text-destructive mt-2">{message}</p>;
+}
+
 export default function OnboardingPage() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(true);
@@ -117,19 +163,33 @@ export default function OnboardingPage() {
   const [currentStep, setCurrentStep] = useState<OnboardingStep>("terms");
   const [stepsCompleted, setStepsCompleted] = useState<OnboardingStep[]>([]);
   const [termsAccepted, setTermsAccepted] = useState(false);
+  const [termsVersion, setTermsVersion] = useState<TermsVersion | null>(null);
   const [stepStartTime, setStepStartTime] = useState<number>(Date.now());
   const [showingPay, setShowingPay] = useState(false);
   const [copied, setCopied] = useState(false);
+  // Invite link to this challenge, created the first time it is shared
+  const [inviteUrl, setInviteUrl] = useState("");
   const currentButtonRef = useRef<HTMLButtonElement>(null);
 
   // AI Chat state
   const [aiMessages, setAiMessages] = useState<AIMessage[]>([]);
   const [aiInput, setAiInput] = useState("");
   const [aiLoading, setAiLoading] = useState(false);
+  const [streamingReply, setStreamingReply] = useState("");
+  const aiAbortRef = useRef<AbortController | null>(null);
   const [conversationId, setConversationId] = useState<string>("");
   const [suggestedChallenges, setSuggestedChallenges] = useState<
     SuggestedChallenge[]
   >([]);
+  const [pastConversations, setPastConversations] = useState<
+    AIConversationSummary[]
+  >([]);
+
+  // Template picker state (for users who skip the AI chat)
+  const [showingTemplates, setShowingTemplates] = useState(false);
+  const [templateType, setTemplateType] = useState<ChallengeType | "">("");
+  // null while loading
+  const [templates, setTemplates] = useState<ChallengeTemplate[] | null>(null);
 
   // Challenge draft state
   const [challengeDraft, setChallengeDraft] = useState<ChallengeDraft>({
@@ -149,24 +209,43 @@ export default function OnboardingPage() {
     },
   });
 
-  // Get auth token
-  const getToken = useCallback(() => {
-    return localStorage.getItem("accessToken");
-  }, []);
-
   // Initialize session
   useEffect(() => {
     const initSession = async () => {
-      const token = getToken();
-      if (!token) {
+      if (!isSignedIn()) {
         router.push("/");
         return;
       }
 
       try {
-        const response = await fetch("/api/onboarding/session", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
+        // Signed up from an invite link: take on the friend's challenge first
+        const pendingInvite = localStorage.getItem("pendingInvite");
+        if (pendingInvite) {
+          localStorage.removeItem("pendingInvite");
+          const accepted = await fetch(
+            `/api/invites/${encodeURIComponent(pendingInvite)}/accept`,
+            {
+              method: "POST",
+              headers: getAuthHeaders(),
+            },
+          );
+          // Already drafting a challenge: the invite page asks before replacing it
+          if (accepted.status === 409) {
+            router.push(`/join/${encodeURIComponent(pendingInvite)}`);
+            return;
+          }
+        }
+
+        // Reminder emails link here with ?resume=<sessionId>
+        const resumeId = new URLSearchParams(window.location.search).get(
+          "resume",
+        );
+        const response = await fetch(
+          resumeId
+            ? `/api/onboarding/session?resume=${encodeURIComponent(resumeId)}`
+            : "/api/onboarding/session",
+          { headers: getAuthHeaders() },
+        );
 
         if (!response.ok) {
           if (response.status === 401) {
@@ -177,10 +256,36 @@ export default function OnboardingPage() {
         }
 
         const data = await response.json();
+
+        // A step in the URL is only honoured if the server's step rules allow moving there
+        const urlStep = getStepFromPath(window.location.pathname);
+        if (urlStep && urlStep !== data.session.current_step) {
+          const moved = await fetch("/api/onboarding/session", {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+              ...getAuthHeaders(),
+            },
+            body: JSON.stringify({
+              sessionId: data.session.id,
+              currentStep: urlStep,
+            }),
+          });
+          if (moved.ok) {
+            data.session = (await moved.json()).session;
+          }
+        }
+        window.history.replaceState(
+          null,
+          "",
+          getStepUrl(data.session.current_step),
+        );
+
         setSessionId(data.session.id);
         setCurrentStep(data.session.current_step);
         setStepsCompleted(data.session.steps_completed || []);
         setTermsAccepted(data.termsAccepted);
+        setTermsVersion(data.termsVersion);
 
         if (data.session.challenge_draft) {
           setChallengeDraft((prev) => ({
@@ -199,7 +304,94 @@ export default function OnboardingPage() {
     };
 
     initSession();
-  }, [getToken, router]);
+  }, [router]);
+
+  // Reload an earlier conversation so the user can carry on with it
+  const resumeConversation = useCallback(
+    async (id: string) => {
+      if (!isSignedIn()) return;
+
+      try {
+        const response = await fetch(`/api/onboarding/ai-chat/${id}`, {
+          headers: getAuthHeaders(),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load conversation");
+        }
+
+        const { conversation } = await response.json();
+        setConversationId(conversation.id);
+        setAiMessages(conversation.messages || []);
+        setSuggestedChallenges(conversation.suggested_challenges || []);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load conversation",
+        );
+      }
+    },
+    [],
+  );
+
+  // Load conversation history on the chat step, picking up this session's
+  // latest conversation where it left off
+  useEffect(() => {
+    if (currentStep !== "ai-chat" || !sessionId) return;
+
+    const loadConversations = async () => {
+      if (!isSignedIn()) return;
+
+      try {
+        const response = await fetch("/api/onboarding/ai-chat", {
+          headers: getAuthHeaders(),
+        });
+        if (!response.ok) return;
+
+        const { conversations } = await response.json();
+        setPastConversations(conversations);
+
+        if (conversations[0]?.onboarding_session_id === sessionId) {
+          await resumeConversation(conversations[0].id);
+        }
+      } catch {
+        // History is optional; the chat works without it
+      }
+    };
+
+    loadConversations();
+  }, [currentStep, sessionId, resumeConversation]);
+
+  // Load templates once the picker is open, filtered by the chosen type
+  useEffect(() => {
+    if (!showingTemplates) return;
+
+    const loadTemplates = async () => {
+      if (!isSignedIn()) return;
+
+      try {
+        const params = new URLSearchParams(
+          templateType ? { type: templateType } : {},
+        );
+        const response = await fetch(`/api/templates?${params}`, {
+          headers: getAuthHeaders(),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load templates");
+        }
+
+        const data = await response.json();
+        setTemplates(data.templates);
+      } catch (err) {
+        setTemplates([]);
+        setError(
+          err instanceof Error ? err.message : "Failed to load templates",
+        );
+      }
+    };
+
+    loadTemplates();
+  }, [showingTemplates, templateType]);
 
   // Scroll current step into view on mobile
   useEffect(() => {
@@ -213,11 +405,39 @@ export default function OnboardingPage() {
 
   // Handle share
   const handleShare = async () => {
-    const url = `https://showup.com/onboarding/join?session=${sessionId}`;
+    let url = inviteUrl;
+    if (!url) {
+      if (!isSignedIn()) return;
+
+      try {
+        const response = await fetch("/api/invites", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...getAuthHeaders(),
+          },
+          body: JSON.stringify({ sessionId }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to create invite link");
+        }
+
+        url = data.url;
+        setInviteUrl(url);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to create invite link",
+        );
+        return;
+      }
+    }
+
     if (navigator.share) {
       try {
         await navigator.share({ title: "Join my challenge", url });
-      } catch (err) {
+      } catch {
         await copyToClipboard(url);
       }
     } else {
@@ -231,7 +451,7 @@ export default function OnboardingPage() {
         await navigator.clipboard.writeText(text);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
-      } catch (err) {
+      } catch {
         fallbackCopy(text);
       }
     } else {
@@ -259,17 +479,16 @@ export default function OnboardingPage() {
         challengeDraft: ChallengeDraft;
       }>,
     ) => {
-      const token = getToken();
-      if (!token || !sessionId) return;
+      if (!isSignedIn() || !sessionId) return;
 
       const timeSpent = Math.floor((Date.now() - stepStartTime) / 1000);
 
       try {
-        await fetch("/api/onboarding/session", {
+        const response = await fetch("/api/onboarding/session", {
           method: "PATCH",
           headers: {
-            Authorization: `Bearer ${token}`,
             "Content-Type": "application/json",
+            ...getAuthHeaders(),
           },
           body: JSON.stringify({
             sessionId,
@@ -277,16 +496,31 @@ export default function OnboardingPage() {
             timeSpentSeconds: timeSpent,
           }),
         });
+
+        const data = await response.json().catch(() => ({}));
+        // The server rejects moving past a step that is not complete;
+        // stay on the step it still has the session on
+        if (!response.ok) {
+          setError(data.error || "Failed to save your progress");
+          if (data.currentStep) {
+            window.history.replaceState(null, "", getStepUrl(data.currentStep));
+            setCurrentStep(data.currentStep);
+          }
+          return;
+        }
+        setStepsCompleted(data.session.steps_completed || []);
       } catch (err) {
         console.error("Failed to update session:", err);
       }
     },
-    [getToken, sessionId, stepStartTime],
+    [sessionId, stepStartTime],
   );
 
-  // Navigate to step
+  // Navigate to step; returns whether the step can be reached
   const goToStep = useCallback(
     (step: OnboardingStep) => {
+      if (step === currentStep) return true;
+
       const currentIndex = STEPS.findIndex((s) => s.key === currentStep);
       const targetIndex = STEPS.findIndex((s) => s.key === step);
 
@@ -297,27 +531,65 @@ export default function OnboardingPage() {
       ) {
         setCurrentStep(step);
         setStepStartTime(Date.now());
-        updateSession({ currentStep: step });
+        // Save the draft too, so edits made on the step being left are kept
+        updateSession({ currentStep: step, challengeDraft });
+        return true;
       }
+      return false;
     },
-    [currentStep, stepsCompleted, updateSession],
+    [currentStep, stepsCompleted, updateSession, challengeDraft],
   );
 
-  // Complete current step and move to next
+  // Every step change gets its own browser history entry
+  useEffect(() => {
+    if (isLoading) return;
+
+    const url = getStepUrl(currentStep);
+    if (window.location.pathname !== url) {
+      window.history.pushState(null, "", url);
+    }
+  }, [currentStep, isLoading]);
+
+  // Back/forward move between steps, under the same rules as the step buttons
+  useEffect(() => {
+    const handlePopState = () => {
+      const step = getStepFromPath(window.location.pathname);
+      if (!step || !goToStep(step)) {
+        window.history.replaceState(null, "", getStepUrl(currentStep));
+      }
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [currentStep, goToStep]);
+
+  // Complete current step and move to next. Pass the draft when it was just
+  // replaced (e.g. by a suggestion or template), since state updates lag behind.
   const completeStep = useCallback(
-    (step: OnboardingStep) => {
+    (step: OnboardingStep, draft: ChallengeDraft = challengeDraft) => {
       const newCompleted = [...stepsCompleted];
       if (!newCompleted.includes(step)) {
         newCompleted.push(step);
       }
       setStepsCompleted(newCompleted);
 
+      // Completing the step clears the review highlight on the fields it covers
+      const reviewedDraft = markFieldsReviewed(
+        draft,
+        STEP_DRAFT_FIELDS[step] || [],
+      );
+      setChallengeDraft(reviewedDraft);
+
       const currentIndex = STEPS.findIndex((s) => s.key === step);
       if (currentIndex < STEPS.length - 1) {
         const nextStep = STEPS[currentIndex + 1].key;
         setCurrentStep(nextStep);
         setStepStartTime(Date.now());
-        updateSession({ currentStep: nextStep, stepsCompleted: newCompleted });
+        updateSession({
+          currentStep: nextStep,
+          stepsCompleted: newCompleted,
+          challengeDraft: reviewedDraft,
+        });
       }
     },
     [stepsCompleted, updateSession, challengeDraft],
@@ -325,93 +597,133 @@ export default function OnboardingPage() {
 
   // Accept terms
   const handleAcceptTerms = async () => {
-    const token = getToken();
-    if (!token) return;
+    if (!isSignedIn()) return;
 
     try {
       const response = await fetch("/api/onboarding/terms", {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
+          ...getAuthHeaders(),
         },
-        body: JSON.stringify({ sessionId, termsVersion: "1.0" }),
+        body: JSON.stringify({ sessionId, termsVersion: termsVersion?.version }),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to accept terms");
+        const data = await response.json().catch(() => ({}));
+        // The terms changed while they were being read: show the new version
+        if (data.code === "terms_outdated") {
+          setTermsVersion(data.termsVersion);
+        }
+        throw new Error(data.error || "Failed to accept terms");
       }
 
       setTermsAccepted(true);
-      completeStep("terms");
+      if (currentStep === "terms") {
+        completeStep("terms");
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to accept terms");
     }
   };
 
-  // Send AI message
+  // Send AI message and stream the reply
   const handleSendAiMessage = async () => {
     if (!aiInput.trim() || aiLoading) return;
 
-    const token = getToken();
-    if (!token) return;
+    if (!isSignedIn()) return;
 
     const userMessage = aiInput.trim();
+    const pendingMessage: AIMessage = {
+      id: `user_${Date.now()}`,
+      role: "user",
+      content: userMessage,
+      timestamp: new Date(),
+    };
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+
     setAiInput("");
     setAiLoading(true);
+    setStreamingReply("");
+    setAiMessages((prev) => [...prev, pendingMessage]);
 
     try {
-      const response = await fetch("/api/onboarding/ai-chat", {
+      const response = await fetch("/api/onboarding/ai-chat/stream", {
         method: "POST",
         headers: {
-          Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({
           sessionId,
           conversationId: conversationId || undefined,
           message: userMessage,
         }),
+        signal: controller.signal,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error("Failed to send message");
       }
 
-      const data = await response.json();
-      setConversationId(data.conversationId);
-      setAiMessages((prev) => [
-        ...prev,
-        {
-          id: `user_${Date.now()}`,
-          role: "user",
-          content: userMessage,
-          timestamp: new Date(),
-        },
-        data.message,
-      ]);
+      let completed = false;
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data);
+
+        if (event.event === "delta") {
+          setStreamingReply((prev) => prev + data.text);
+        } else if (event.event === "done") {
+          completed = true;
+          setConversationId(data.conversationId);
+          setAiMessages((prev) => [...prev, data.message]);
+          if (data.suggestedChallenges) {
+            setSuggestedChallenges(data.suggestedChallenges);
+          }
+        } else if (event.event === "error") {
+          throw new Error(data.error || "Failed to send message");
+        }
+      }
 
-      if (data.suggestedChallenges) {
-        setSuggestedChallenges(data.suggestedChallenges);
+      if (!completed) {
+        throw new Error("Failed to send message");
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to send message");
+      // Nothing was saved: give the message back so it can be edited or resent
+      setAiMessages((prev) => prev.filter((msg) => msg.id !== pendingMessage.id));
+      setAiInput(userMessage);
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to send message");
+      }
     } finally {
+      aiAbortRef.current = null;
+      setStreamingReply("");
       setAiLoading(false);
     }
   };
 
+  // Start over with an empty conversation
+  const handleNewConversation = () => {
+    setConversationId("");
+    setAiMessages([]);
+    setSuggestedChallenges([]);
+  };
+
+  // Stop the reply that is being generated
+  const handleCancelAiMessage = () => {
+    aiAbortRef.current?.abort();
+  };
+
   // Select suggested challenge
   const handleSelectChallenge = async (challenge: SuggestedChallenge) => {
-    const token = getToken();
-    if (!token) return;
+    if (!isSignedIn()) return;
 
     try {
       const response = await fetch("/api/onboarding/ai-chat", {
         method: "PUT",
         headers: {
-          Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({
           sessionId,
@@ -420,23 +732,13 @@ export default function OnboardingPage() {
         }),
       });
 
+      // Every field the AI could fill in, with its confidence
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to select challenge");
+        throw new Error(data.error || "Failed to select challenge");
       }
 
-      setChallengeDraft((prev) => ({
-        ...prev,
-        title: challenge.title,
-        description: challenge.description,
-        type: challenge.type,
-        frequency: challenge.suggestedFrequency,
-        durationDays: challenge.suggestedDuration,
-        depositAmount: challenge.suggestedDeposit,
-        aiSuggested: true,
-        aiConversationId: conversationId,
-      }));
-
-      completeStep("ai-chat");
+      completeStep("ai-chat", { ...challengeDraft, ...data.challengeDraft });
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to select challenge",
@@ -444,42 +746,31 @@ export default function OnboardingPage() {
     }
   };
 
-  // Skip AI chat
+  // Skip AI chat: offer templates instead
   const handleSkipAiChat = () => {
-    completeStep("ai-chat");
+    setShowingTemplates(true);
   };
 
-  // Complete onboarding
-  const handleCompleteOnboarding = async () => {
-    const token = getToken();
-    if (!token) return;
-
-    try {
-      const response = await fetch("/api/onboarding/complete", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          sessionId,
-          challengeDraft,
-        }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "Failed to complete onboarding");
-      }
+  // Start from a template
+  const handleSelectTemplate = (template: ChallengeTemplate) => {
+    completeStep("ai-chat", { ...challengeDraft, ...templateToDraft(template) });
+  };
 
-      // Onboarding complete - payment step will be handled by StripeCheckout
-    } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Failed to complete onboarding",
-      );
-    }
+  const handleTemplateTypeChange = (type: ChallengeType | "") => {
+    if (type === templateType) return;
+    setTemplates(null);
+    setTemplateType(type);
   };
 
+  // Terms that changed since the user accepted them have to be accepted again first
+  const visibleStep: OnboardingStep = termsAccepted ? currentStep : "terms";
+  const reacceptingTerms = !termsAccepted && currentStep !== "terms";
+  // Same checks the API runs, limited to the fields on the visible step
+  const stepErrors = validateChallengeDraft(challengeDraft, {
+    fields: STEP_DRAFT_FIELDS[visibleStep] || [],
+  });
+  const stepValid = isValidDraft(stepErrors);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -593,7 +884,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 1: Terms and Services */}
-          {currentStep === "terms" && (
+          {visibleStep === "terms" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-8">
                 <Letter3DSwap
@@ -604,14 +895,25 @@ export default function OnboardingPage() {
                   Welcome to Showup
                 </Letter3DSwap>
                 <p className="text-lg text-muted-foreground">
-                  Before we begin, please review our terms of service.
+                  {reacceptingTerms
+                    ? "Our terms of service have changed. Please review and accept them to continue."
+                    : "Before we begin, please review our terms of service."}
                 </p>
               </div>
 
               <div className="neumorphic rounded-2xl p-6 mb-6">
-                <h2 className="text-xl font-serif font-bold mb-4">
+                <h2 className="text-xl font-serif font-bold mb-1">
                   Terms of Service
                 </h2>
+                {termsVersion && (
+                  <p className="text-xs text-muted-foreground mb-4">
+                    Version {termsVersion.version}, effective{" "}
+                    {new Date(termsVersion.effective_at).toLocaleDateString()}
+                    {reacceptingTerms &&
+                      termsVersion.summary &&
+                      ` - What changed: ${termsVersion.summary}`}
+                  </p>
+                )}
                 <div
                   className="h-64 overflow-y-auto text-sm text-muted-foreground space-y-4 pr-4"
                   style={{ WebkitOverflowScrolling: "touch" }}
@@ -708,7 +1010,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 2: AI Chat */}
-          {currentStep === "ai-chat" && (
+          {visibleStep === "ai-chat" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -724,6 +1026,37 @@ export default function OnboardingPage() {
                 </p>
               </div>
 
+              {/* Earlier conversations */}
+              {pastConversations.some((c) => c.id !== conversationId) && (
+                <div className="mb-4">
+                  <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                    <History className="h-4 w-4" />
+                    Pick up an earlier conversation:
+                  </p>
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {pastConversations
+                      .filter((c) => c.id !== conversationId)
+                      .map((c) => (
+                        <button
+                          key={c.id}
+                          onClick={() => resumeConversation(c.id)}
+                          disabled={aiLoading}
+                          className="shrink-0 max-w-[14rem] p-3 rounded-xl border border-border hover:border-primary text-left transition-all disabled:opacity-50"
+                        >
+                          <p className="text-sm font-medium truncate">
+                            {c.selected_title || c.first_message || "Conversation"}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {new Date(c.updated_at).toLocaleDateString()} |{" "}
+                            {c.suggestion_count} suggestion
+                            {c.suggestion_count === 1 ? "" : "s"}
+                          </p>
+                        </button>
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* AI Chat Messages */}
               <div className="neumorphic rounded-2xl p-4 mb-4 h-80 overflow-y-auto">
                 {aiMessages.length === 0 ? (
@@ -780,7 +1113,16 @@ export default function OnboardingPage() {
                         </div>
                       </div>
                     ))}
-                    {aiLoading && (
+                    {aiLoading && streamingReply && (
+                      <div className="flex justify-start">
+                        <div className="max-w-[80%] rounded-2xl px-4 py-3 bg-muted">
+                          <p className="text-sm whitespace-pre-wrap">
+                            {streamingReply}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    {aiLoading && !streamingReply && (
                       <div className="flex justify-start">
                         <div className="bg-muted rounded-2xl px-4 py-3">
                           <div className="flex gap-1">
@@ -809,13 +1151,23 @@ export default function OnboardingPage() {
                   className="flex-1 px-4 py-3 rounded-xl border border-border bg-background focus:outline-none focus:ring-2 focus:ring-ring/20 focus:border-primary transition-all"
                   disabled={aiLoading}
                 />
-                <button
-                  onClick={handleSendAiMessage}
-                  disabled={!aiInput.trim() || aiLoading}
-                  className="px-4 py-3 rounded-xl bg-primary text-primary-foreground disabled:opacity-50 hover:scale-105 transition-all"
-                >
-                  <Send className="h-5 w-5" />
-                </button>
+                {aiLoading ? (
+                  <button
+                    onClick={handleCancelAiMessage}
+                    aria-label="Stop generating"
+                    className="px-4 py-3 rounded-xl bg-muted text-foreground hover:scale-105 transition-all"
+                  >
+                    <Square className="h-5 w-5" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendAiMessage}
+                    disabled={!aiInput.trim()}
+                    className="px-4 py-3 rounded-xl bg-primary text-primary-foreground disabled:opacity-50 hover:scale-105 transition-all"
+                  >
+                    <Send className="h-5 w-5" />
+                  </button>
+                )}
               </div>
 
               {/* Suggested Challenges */}
@@ -842,17 +1194,94 @@ export default function OnboardingPage() {
                 </div>
               )}
 
-              <button
-                onClick={handleSkipAiChat}
-                className="w-full py-3 rounded-xl border border-border text-muted-foreground hover:bg-muted transition-all"
-              >
-                Skip - I know what I want
-              </button>
+              {conversationId && (
+                <button
+                  onClick={handleNewConversation}
+                  disabled={aiLoading}
+                  className="w-full py-3 mb-2 rounded-xl border border-border text-muted-foreground hover:bg-muted transition-all disabled:opacity-50"
+                >
+                  Start a new conversation
+                </button>
+              )}
+
+              {showingTemplates ? (
+                <div className="neumorphic rounded-2xl p-4">
+                  <p className="text-sm font-medium mb-3">
+                    Start from a template:
+                  </p>
+                  <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+                    {[{ value: "" as const, label: "All" }, ...CHALLENGE_TYPES].map(
+                      ({ value, label }) => (
+                        <button
+                          key={value || "all"}
+                          onClick={() => handleTemplateTypeChange(value)}
+                          className={cn(
+                            "shrink-0 px-3 py-1 rounded-full border text-xs transition-all",
+                            templateType === value
+                              ? "border-primary bg-primary/5"
+                              : "border-border hover:border-primary/50",
+                          )}
+                        >
+                          {label}
+                        </button>
+                      ),
+                    )}
+                  </div>
+
+                  {templates === null ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      Loading templates...
+                    </p>
+                  ) : templates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No templates of this type yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-2 max-h-80 overflow-y-auto">
+                      {templates.map((template) => (
+                        <button
+                          key={template.id}
+                          onClick={() => handleSelectTemplate(template)}
+                          className="w-full p-3 rounded-xl border border-border hover:border-primary text-left transition-all hover:scale-[1.01]"
+                        >
+                          <p className="font-medium">{template.title}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {template.durationDays} days | $
+                            {template.depositAmount} | {template.type}
+                          </p>
+                          {template.usageCount > 0 && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Started {template.usageCount} time
+                              {template.usageCount === 1 ? "" : "s"}
+                              {template.completionRate !== null &&
+                                ` | ${Math.round(template.completionRate * 100)}% completed`}
+                            </p>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => completeStep("ai-chat")}
+                    className="w-full py-3 mt-3 rounded-xl border border-border text-muted-foreground hover:bg-muted transition-all"
+                  >
+                    Start from scratch
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={handleSkipAiChat}
+                  className="w-full py-3 rounded-xl border border-border text-muted-foreground hover:bg-muted transition-all"
+                >
+                  Skip - I know what I want
+                </button>
+              )}
             </div>
           )}
 
           {/* Step 3: Challenge Definition */}
-          {currentStep === "challenge-definition" && (
+          {visibleStep === "challenge-definition" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -872,6 +1301,7 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Challenge Title
+                    <ReviewHint show={needsReview(challengeDraft, "title")} />
                   </label>
                   <input
                     type="text"
@@ -885,11 +1315,15 @@ export default function OnboardingPage() {
                     placeholder="e.g., Daily Skincare Ritual"
                     className="w-full px-4 py-3 rounded-xl border border-border bg-background focus:outline-none focus:ring-2 focus:ring-ring/20 focus:border-primary transition-all"
                   />
+                  {challengeDraft.title && (
+                    <FieldError message={stepErrors.title} />
+                  )}
                 </div>
 
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Description
+                    <ReviewHint show={needsReview(challengeDraft, "description")} />
                   </label>
                   <textarea
                     value={challengeDraft.description}
@@ -908,6 +1342,7 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Challenge Type
+                    <ReviewHint show={needsReview(challengeDraft, "type")} />
                   </label>
                   <div className="grid grid-cols-2 gap-2">
                     {CHALLENGE_TYPES.map(({ value, label }) => (
@@ -943,9 +1378,7 @@ export default function OnboardingPage() {
 
                 <button
                   onClick={() => completeStep("challenge-definition")}
-                  disabled={
-                    !challengeDraft.title || !challengeDraft.description
-                  }
+                  disabled={!stepValid}
                   className="w-full py-4 rounded-xl bg-primary text-primary-foreground font-medium text-lg transition-all duration-300 hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Continue{" "}
@@ -956,7 +1389,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 4: Resolution Method */}
-          {currentStep === "resolution" && (
+          {visibleStep === "resolution" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -976,6 +1409,7 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Verification Method
+                    <ReviewHint show={needsReview(challengeDraft, "resolutionMethod")} />
                   </label>
                   <textarea
                     value={challengeDraft.resolutionMethod || ""}
@@ -1013,7 +1447,7 @@ export default function OnboardingPage() {
                   </button>
                   <button
                     onClick={() => completeStep("resolution")}
-                    disabled={!challengeDraft.resolutionMethod}
+                    disabled={!stepValid}
                     className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium transition-all hover:scale-[1.02] disabled:opacity-50"
                   >
                     Continue
@@ -1025,7 +1459,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 5: Deposit */}
-          {currentStep === "deposit" && (
+          {visibleStep === "deposit" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -1045,6 +1479,7 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-3">
                     Deposit Amount
+                    <ReviewHint show={needsReview(challengeDraft, "depositAmount")} />
                   </label>
                   <div className="grid grid-cols-2 gap-3">
                     {DEPOSIT_OPTIONS.map(({ amount, label, description }) => (
@@ -1089,8 +1524,10 @@ export default function OnboardingPage() {
                       placeholder="0"
                     />
                     <p className="text-xs text-muted-foreground text-center mt-1">
-                      Or enter a custom amount
+                      Or enter a custom amount (up to $
+                      {MAX_DEPOSIT_USD.toLocaleString("en-US")})
                     </p>
+                    <FieldError message={stepErrors.depositAmount} />
                   </div>
                 </div>
 
@@ -1112,10 +1549,7 @@ export default function OnboardingPage() {
                   </button>
                   <button
                     onClick={() => completeStep("deposit")}
-                    disabled={
-                      !challengeDraft.depositAmount ||
-                      challengeDraft.depositAmount < 1
-                    }
+                    disabled={!stepValid}
                     className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium transition-all hover:scale-[1.02] disabled:opacity-50"
                   >
                     Continue
@@ -1127,7 +1561,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 6: Notifications */}
-          {currentStep === "notifications" && (
+          {visibleStep === "notifications" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -1147,7 +1581,12 @@ export default function OnboardingPage() {
                 <div className="neumorphic rounded-xl p-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="font-medium">Enable Reminders</p>
+                      <p className="font-medium">
+                        Enable Reminders
+                        <ReviewHint
+                          show={needsReview(challengeDraft, "notificationSettings")}
+                        />
+                      </p>
                       <p className="text-sm text-muted-foreground">
                         Get notified when it&apos;s time to do your challenge
                       </p>
@@ -1326,7 +1765,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 7: Activity Rate */}
-          {currentStep === "activity-rate" && (
+          {visibleStep === "activity-rate" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -1346,6 +1785,12 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-3">
                     Frequency
+                    <ReviewHint
+                      show={
+                        needsReview(challengeDraft, "frequency") ||
+                        needsReview(challengeDraft, "frequencyDetails")
+                      }
+                    />
                   </label>
                   <div className="grid grid-cols-2 gap-2">
                     {FREQUENCY_OPTIONS.map(({ value, label }) => (
@@ -1406,6 +1851,7 @@ export default function OnboardingPage() {
                         </button>
                       ))}
                     </div>
+                    <FieldError message={stepErrors.frequency} />
                   </div>
                 )}
 
@@ -1457,7 +1903,8 @@ export default function OnboardingPage() {
                   </button>
                   <button
                     onClick={() => completeStep("activity-rate")}
-                    className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium transition-all hover:scale-[1.02]"
+                    disabled={!stepValid}
+                    className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium transition-all hover:scale-[1.02] disabled:opacity-50"
                   >
                     Continue
                     <ChevronRight className="inline-block ml-2 h-5 w-5" />
@@ -1468,7 +1915,7 @@ export default function OnboardingPage() {
           )}
 
           {/* Step 8: Sharing */}
-          {currentStep === "sharing" && (
+          {visibleStep === "sharing" && (
             <div className="animate-fade-in-up">
               <div className="text-center mb-6">
                 <Letter3DSwap
@@ -1521,6 +1968,7 @@ export default function OnboardingPage() {
                 <div>
                   <label className="block text-sm font-medium mb-2">
                     Number of Guarantors Desired
+                    <ReviewHint show={needsReview(challengeDraft, "guarantorsCount")} />
                   </label>
                   <input
                     type="text"
@@ -1539,6 +1987,7 @@ export default function OnboardingPage() {
                     className="w-full px-4 py-3 rounded-xl border border-border bg-background focus:outline-none focus:ring-2 focus:ring-ring/20 focus:border-primary transition-all"
                     placeholder="1"
                   />
+                  <FieldError message={stepErrors.guarantorsCount} />
                 </div>
 
                 {/* Share Link */}
@@ -1586,6 +2035,7 @@ export default function OnboardingPage() {
                         guarantorsCount: (
                           challengeDraft.guarantorsCount || 1
                         ).toString(),
+                        onboardingSessionId: sessionId,
                       }}
                       onError={(error) =>
                         setError(
@@ -1607,7 +2057,7 @@ export default function OnboardingPage() {
                     </button>
                     <button
                       onClick={() => setShowingPay(true)}
-                      disabled={!challengeDraft.guarantorsCount}
+                      disabled={!stepValid}
                       className="flex-1 py-3 rounded-xl bg-primary text-primary-foreground font-medium transition-all hover:scale-[1.02] disabled:opacity-50"
                     >
                       Complete & Deposit
@@ -0,0 +1,188 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useState, Suspense } from "react";
+import Link from "next/link";
+import { KeyRound, Loader2, Check } from "lucide-react";
+
+function ResetPasswordContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  // Request a reset link
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to request password reset");
+      }
+
+      setMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request password reset");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Set the new password
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reset password");
+      }
+
+      setMessage(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset password");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md">
+        <div className="rounded-2xl neumorphic p-8">
+          <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-muted">
+            {message ? (
+              <Check className="h-10 w-10 text-green-500" />
+            ) : (
+              <KeyRound className="h-10 w-10 text-muted-foreground" />
+            )}
+          </div>
+
+          <h1 className="text-center text-2xl font-serif font-bold text-foreground">
+            {token ? "Choose a new password" : "Forgot your password?"}
+          </h1>
+
+          {message ? (
+            <div className="mt-6 space-y-6 text-center">
+              <p className="text-muted-foreground">{message}</p>
+              <Link
+                href="/"
+                className="block w-full rounded-xl bg-primary py-3 font-medium text-primary-foreground transition-all duration-300 hover:scale-[1.02]"
+              >
+                Return Home
+              </Link>
+            </div>
+          ) : (
+            <form
+              onSubmit={token ? handleReset : handleRequest}
+              className="mt-6 space-y-4"
+            >
+              {error && (
+                <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              {token ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">New password</label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder="At least 8 characters"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Confirm password</label>
+                    <input
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                      placeholder="Repeat your new password"
+                      required
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <p className="mb-4 text-sm text-muted-foreground text-center">
+                    Enter your email and we&apos;ll send you a link to reset your password.
+                  </p>
+                  <label className="block text-sm font-medium mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="Enter your email"
+                    required
+                  />
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+              >
+                {isLoading
+                  ? "Please wait..."
+                  : token
+                    ? "Reset password"
+                    : "Send reset link"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center bg-background">
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        </div>
+      }
+    >
+      <ResetPasswordContent />
+    </Suspense>
+  );
+}
@@ -3,7 +3,11 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
 import { cn } from "@/lib/utils";
+import { TwoFactorSetup } from "@/components/TwoFactorSetup";
+import { clearStoredTokens, getSessionStartHeaders } from "@/lib/auth/client";
+import type { MfaChallengeResponse } from "@/types/auth";
 
 interface AuthData {
   email: string;
@@ -23,6 +27,28 @@ export function Navbar({ className }: NavbarProps) {
   const [signupData, setSignupData] = useState<AuthData & { username?: string }>({ email: '', password: '', username: '' });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallengeResponse | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+
+  // The session cookies are set by the login response
+  const finishLogin = () => {
+    clearStoredTokens();
+
+    setIsLoginOpen(false);
+    setLoginData({ email: '', password: '' });
+    setMfaChallenge(null);
+    setMfaCode('');
+    // TODO: Update app state to show user is logged in
+    window.location.reload(); // Simple refresh for now
+  };
+
+  const closeLogin = () => {
+    setIsLoginOpen(false);
+    setError('');
+    setLoginData({ email: '', password: '' });
+    setMfaChallenge(null);
+    setMfaCode('');
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,7 +58,7 @@ export function Navbar({ className }: NavbarProps) {
     try {
       const response = await fetch('/api/auth/login', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getSessionStartHeaders(),
         body: JSON.stringify(loginData),
       });
 
@@ -42,14 +68,13 @@ export function Navbar({ className }: NavbarProps) {
         throw new Error(result.error || 'Login failed');
       }
 
-      // Store tokens
-      localStorage.setItem('accessToken', result.accessToken);
-      localStorage.setItem('refreshToken', result.refreshToken);
+      // Password accepted, but a second factor is needed
+      if (result.mfaToken) {
+        setMfaChallenge(result);
+        return;
+      }
 
-      setIsLoginOpen(false);
-      setLoginData({ email: '', password: '' });
-      // TODO: Update app state to show user is logged in
-      window.location.reload(); // Simple refresh for now
+      finishLogin();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -57,6 +82,41 @@ export function Navbar({ className }: NavbarProps) {
     }
   };
 
+  const handleMfaVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaChallenge) return;
+
+    setIsLoading(true);
+    setError('');
+
+    // Six digits is an authenticator code, anything else a recovery code
+    const input = mfaCode.trim();
+    const isTotpCode = /^\d{6}$/.test(input);
+
+    try {
+      const response = await fetch('/api/auth/mfa/verify', {
+        method: 'POST',
+        headers: getSessionStartHeaders(),
+        body: JSON.stringify({
+          mfaToken: mfaChallenge.mfaToken,
+          ...(isTotpCode ? { code: input } : { recoveryCode: input }),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Verification failed');
+      }
+
+      finishLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -65,7 +125,7 @@ export function Navbar({ className }: NavbarProps) {
     try {
       const response = await fetch('/api/auth/register', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getSessionStartHeaders(),
         body: JSON.stringify(signupData),
       });
 
@@ -75,9 +135,7 @@ export function Navbar({ className }: NavbarProps) {
         throw new Error(result.error || 'Signup failed');
       }
 
-      // Store tokens
-      localStorage.setItem('accessToken', result.accessToken);
-      localStorage.setItem('refreshToken', result.refreshToken);
+      clearStoredTokens();
 
       setIsSignupOpen(false);
       setSignupData({ email: '', password: '', username: '' });
@@ -134,54 +192,100 @@ export function Navbar({ className }: NavbarProps) {
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
           <div className="neumorphic max-w-md w-full mx-4 p-6 rounded-xl bg-background">
             <div className="flex justify-between items-center mb-6">
-              <h3 className="text-xl font-serif font-bold">Login</h3>
+              <h3 className="text-xl font-serif font-bold">
+                {mfaChallenge ? 'Two-Factor Authentication' : 'Login'}
+              </h3>
               <button
-                onClick={() => {
-                  setIsLoginOpen(false);
-                  setError('');
-                  setLoginData({ email: '', password: '' });
-                }}
+                onClick={closeLogin}
                 className="text-muted-foreground hover:text-foreground"
               >
                 ✕
               </button>
             </div>
-            <form onSubmit={handleLogin} className="space-y-4">
-              {error && (
-                <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
-                  {error}
-                </div>
-              )}
-              <div>
-                <label className="block text-sm font-medium mb-2">Email</label>
-                <input
-                  type="email"
-                  value={loginData.email}
-                  onChange={(e) => setLoginData({ ...loginData, email: e.target.value })}
-                  className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  placeholder="Enter your email"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-2">Password</label>
-                <input
-                  type="password"
-                  value={loginData.password}
-                  onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
-                  className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
-                  placeholder="Enter your password"
-                  required
+            {mfaChallenge?.mfaEnrollmentRequired ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Your account has enough at stake that two-factor authentication is required.
+                  Set it up to finish logging in.
+                </p>
+                <TwoFactorSetup
+                  mfaToken={mfaChallenge.mfaToken}
+                  onComplete={(result) => {
+                    if (result.user) finishLogin();
+                  }}
                 />
               </div>
-              <button
-                type="submit"
-                disabled={isLoading}
-                className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
-              >
-                {isLoading ? 'Logging in...' : 'Login'}
-              </button>
-            </form>
+            ) : mfaChallenge ? (
+              <form onSubmit={handleMfaVerify} className="space-y-4">
+                {error && (
+                  <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
+                    {error}
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Authentication code</label>
+                  <input
+                    type="text"
+                    autoComplete="one-time-code"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="6-digit code or recovery code"
+                    required
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+                >
+                  {isLoading ? 'Verifying...' : 'Verify'}
+                </button>
+              </form>
+            ) : (
+              <form onSubmit={handleLogin} className="space-y-4">
+                {error && (
+                  <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
+                    {error}
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={loginData.email}
+                    onChange={(e) => setLoginData({ ...loginData, email: e.target.value })}
+                    className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="Enter your email"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Password</label>
+                  <input
+                    type="password"
+                    value={loginData.password}
+                    onChange={(e) => setLoginData({ ...loginData, password: e.target.value })}
+                    className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="Enter your password"
+                    required
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+                >
+                  {isLoading ? 'Logging in...' : 'Login'}
+                </button>
+                <Link
+                  href="/reset-password"
+                  className="block text-center text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Forgot your password?
+                </Link>
+              </form>
+            )}
           </div>
         </div>
       )}
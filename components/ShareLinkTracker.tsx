@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect } from "react";
+
+interface ShareLinkTrackerProps {
+  slug: string;
+}
+
+// Records the visit to a shared challenge page, once per browser tab
+export function ShareLinkTracker({ slug }: ShareLinkTrackerProps) {
+  useEffect(() => {
+    const storageKey = `shareLinkOpened:${slug}`;
+    if (sessionStorage.getItem(storageKey)) return;
+    sessionStorage.setItem(storageKey, "1");
+
+    const via = new URLSearchParams(window.location.search).get("via");
+    fetch(`/api/share/${encodeURIComponent(slug)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ via, referrer: document.referrer }),
+      keepalive: true,
+    }).catch(() => {
+      // Analytics only
+    });
+  }, [slug]);
+
+  return null;
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { getAuthHeaders, getSessionStartHeaders } from "@/lib/auth/client";
+import type { CookieSessionResponse, TotpEnrollment } from "@/types/auth";
+
+interface TwoFactorSetupProps {
+  // Challenge token from /api/auth/login when enrollment is mandatory;
+  // omitted when a signed-in user turns 2FA on voluntarily
+  mfaToken?: string;
+  onComplete: (result: { recoveryCodes: string[] } & Partial<CookieSessionResponse>) => void;
+}
+
+/**
+ * TOTP enrollment: scan a QR code, confirm a first code, save recovery codes
+ */
+export function TwoFactorSetup({ mfaToken, onComplete }: TwoFactorSetupProps) {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<
+    ({ recoveryCodes: string[] } & Partial<CookieSessionResponse>) | null
+  >(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/auth/mfa/setup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        body: JSON.stringify({ mfaToken }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to start two-factor setup");
+      }
+
+      setEnrollment(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start two-factor setup");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError("");
+
+    try {
+      // Enrolling as part of a login finishes it, starting the session
+      const response = await fetch("/api/auth/mfa/enable", {
+        method: "POST",
+        headers: { ...getSessionStartHeaders(), ...getAuthHeaders() },
+        body: JSON.stringify({ code, mfaToken }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to enable two-factor authentication");
+      }
+
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to enable two-factor authentication");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Two-factor authentication is on. Save these recovery codes somewhere safe. Each one can be
+          used once if you lose access to your authenticator app. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm p-3 neumorphic-inset rounded-lg">
+          {result.recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <button
+          onClick={() => onComplete(result)}
+          className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium"
+        >
+          I&apos;ve saved my recovery codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="text-red-500 text-sm text-center p-2 neumorphic-inset rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {!enrollment ? (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Protect your deposits with a code from an authenticator app such as Google Authenticator,
+            1Password or Authy.
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={isLoading}
+            className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+          >
+            {isLoading ? "Preparing..." : "Set up two-factor authentication"}
+          </button>
+        </>
+      ) : (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <Image
+            src={enrollment.qrCodeDataUrl}
+            alt="Two-factor authentication QR code"
+            width={192}
+            height={192}
+            unoptimized
+            className="mx-auto rounded-lg bg-white p-2"
+          />
+          <p className="text-xs text-center text-muted-foreground break-all">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono">{enrollment.secret}</span>
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-full px-3 py-2 neumorphic-inset rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-center tracking-widest"
+            placeholder="123456"
+            required
+          />
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full neumorphic hover:scale-105 transition-all duration-300 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+          >
+            {isLoading ? "Verifying..." : "Turn on two-factor authentication"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
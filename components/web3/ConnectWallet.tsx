@@ -2,6 +2,9 @@
 
 import { useState } from "react";
 import { useWallet } from "@/lib/web3/hooks/useWallet";
+import { useSiwe } from "@/lib/web3/hooks/useSiwe";
+import { TwoFactorSetup } from "@/components/TwoFactorSetup";
+import { isSignedIn } from "@/lib/auth/client";
 import { cn } from "@/lib/utils";
 
 interface ConnectWalletProps {
@@ -29,6 +32,40 @@ export function ConnectWallet({
     disconnect,
     switchToDefaultChain,
   } = useWallet();
+  const {
+    signIn,
+    linkWallet,
+    verifyMfa,
+    completeMfaEnrollment,
+    mfaChallenge,
+    isSigning,
+    error: siweError,
+  } = useSiwe();
+  const [siweMessage, setSiweMessage] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+
+  // Prove wallet ownership: link it to the signed-in account, or log in with it
+  const handleSiwe = async () => {
+    setSiweMessage(null);
+    const signedIn = isSignedIn();
+    const result = signedIn ? await linkWallet() : await signIn();
+    if (result) {
+      setSiweMessage(
+        signedIn
+          ? "Wallet linked to your account"
+          : `Signed in as ${result.user.email}`
+      );
+    }
+  };
+
+  const handleMfaVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await verifyMfa(mfaCode.trim());
+    if (result) {
+      setMfaCode("");
+      setSiweMessage(`Signed in as ${result.user.email}`);
+    }
+  };
 
   // Not connected - show connect button
   if (!isConnected) {
@@ -178,6 +215,67 @@ export function ConnectWallet({
               <p className="font-mono text-sm text-gray-900">{address}</p>
             </div>
 
+            <button
+              onClick={handleSiwe}
+              disabled={isSigning}
+              className="mb-3 w-full rounded-xl bg-gray-900 py-3 text-sm font-medium text-white transition-all hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSigning ? "Waiting for signature..." : "Sign in / link with this wallet"}
+            </button>
+
+            {mfaChallenge?.mfaEnrollmentRequired && (
+              <div className="mb-3">
+                <p className="mb-3 text-sm text-gray-600">
+                  Your account has enough at stake that two-factor authentication is required.
+                  Set it up to finish signing in.
+                </p>
+                <TwoFactorSetup
+                  mfaToken={mfaChallenge.mfaToken}
+                  onComplete={(result) => {
+                    if (result.user) {
+                      completeMfaEnrollment();
+                      setSiweMessage("Signed in with your wallet");
+                    }
+                  }}
+                />
+              </div>
+            )}
+
+            {mfaChallenge?.mfaRequired && (
+              <form onSubmit={handleMfaVerify} className="mb-3 space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Authentication code
+                </label>
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  className="w-full rounded-xl border border-gray-200 px-3 py-2 text-sm"
+                  placeholder="6-digit code or recovery code"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={isSigning}
+                  className="w-full rounded-xl bg-gray-900 py-3 text-sm font-medium text-white transition-all hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isSigning ? "Verifying..." : "Verify"}
+                </button>
+              </form>
+            )}
+
+            {(siweMessage || siweError) && (
+              <p
+                className={cn(
+                  "mb-3 text-center text-xs",
+                  siweError ? "text-red-600" : "text-green-600"
+                )}
+              >
+                {siweError || siweMessage}
+              </p>
+            )}
+
             <button
               onClick={() => {
                 disconnect();
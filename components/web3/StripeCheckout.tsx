@@ -2,11 +2,11 @@
 
 import React, { useState, useCallback, useEffect } from "react";
 import { CreditCard, TestTube } from "lucide-react";
+import { getAuthHeaders } from "@/lib/auth/client";
 
 interface CreateCheckoutSessionParams {
   amount: number; // Amount in USD
   challengeId?: string;
-  customerEmail?: string;
   metadata?: Record<string, string>;
 }
 
@@ -22,7 +22,6 @@ interface TestPaymentParams {
   challengeDuration: string;
   guarantors: string[];
   metadataUri: string;
-  customerEmail?: string;
 }
 
 interface TestPaymentResponse {
@@ -46,6 +45,7 @@ async function createCheckoutSession(
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      ...getAuthHeaders(),
     },
     body: JSON.stringify(params),
   });
@@ -68,6 +68,7 @@ async function createTestPayment(
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      ...getAuthHeaders(),
     },
     body: JSON.stringify(params),
   });
@@ -101,7 +102,6 @@ async function checkTestModeStatus(): Promise<boolean> {
 export interface StripeCheckoutProps {
   amount: number; // Amount in USD
   challengeId?: string;
-  customerEmail?: string;
   metadata?: Record<string, string>;
   onSuccess?: (sessionId: string) => void;
   onError?: (error: Error) => void;
@@ -118,7 +118,6 @@ export interface StripeCheckoutProps {
 export function StripeCheckout({
   amount,
   challengeId,
-  customerEmail,
   metadata,
   onSuccess,
   onError,
@@ -143,8 +142,7 @@ export function StripeCheckout({
       const { url } = await createCheckoutSession({
         amount,
         challengeId,
-        customerEmail,
-        metadata,
+              metadata,
       });
 
       // Redirect to Stripe Checkout
@@ -155,7 +153,7 @@ export function StripeCheckout({
       setIsLoading(false);
       onError?.(error);
     }
-  }, [amount, challengeId, customerEmail, metadata, onError]);
+  }, [amount, challengeId, metadata, onError]);
 
   const handleTestPayment = useCallback(async () => {
     try {
@@ -174,8 +172,7 @@ export function StripeCheckout({
         challengeDuration: metadata?.challengeDuration || "30",
         guarantors,
         metadataUri: metadata?.metadataUri || "",
-        customerEmail,
-      });
+            });
 
       if (result.success) {
         onSuccess?.(result.sessionId);
@@ -190,7 +187,7 @@ export function StripeCheckout({
       setIsTestLoading(false);
       onError?.(error);
     }
-  }, [amount, challengeId, customerEmail, metadata, onSuccess, onError]);
+  }, [amount, challengeId, metadata, onSuccess, onError]);
 
 
 
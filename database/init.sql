@@ -17,12 +17,17 @@ CREATE TABLE IF NOT EXISTS users (
 );
 
 -- Sessions table for JWT refresh tokens
+-- Each row is one refresh token family; only the SHA-256 hash of the current token is stored
 CREATE TABLE IF NOT EXISTS sessions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    refresh_token VARCHAR(500) NOT NULL,
+    family_id UUID UNIQUE NOT NULL,
+    refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_rotated_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(50),
     user_agent TEXT,
     ip_address VARCHAR(45)
 );
@@ -31,7 +36,6 @@ CREATE TABLE IF NOT EXISTS sessions (
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_users_wallet_address ON users(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
-CREATE INDEX IF NOT EXISTS idx_sessions_refresh_token ON sessions(refresh_token);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -161,3 +165,310 @@ CREATE TRIGGER update_ai_conversations_updated_at
     BEFORE UPDATE ON ai_conversations
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
+
+-- Email verification tokens (only the SHA-256 hash of the token is stored)
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_verification_tokens_user_id ON email_verification_tokens(user_id);
+
+-- Password reset tokens (hashed, single-use, short-lived)
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    requested_ip VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
+
+-- Security audit log (token reuse, lockouts, password changes, ...)
+CREATE TABLE IF NOT EXISTS security_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    event_type VARCHAR(100) NOT NULL,
+    event_data JSONB DEFAULT '{}',
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_user_id ON security_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_security_events_event_type ON security_events(event_type);
+
+-- Wallet ownership proven via Sign-In with Ethereum
+ALTER TABLE users ADD COLUMN IF NOT EXISTS wallet_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- A wallet can only be linked to one account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wallet_address_unique
+    ON users(LOWER(wallet_address)) WHERE wallet_address IS NOT NULL;
+
+-- Single-use nonces for Sign-In with Ethereum (EIP-4361) messages
+CREATE TABLE IF NOT EXISTS siwe_nonces (
+    nonce VARCHAR(96) PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_siwe_nonces_expires_at ON siwe_nonces(expires_at);
+
+-- Role-based authorization
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'users_role_check'
+    ) THEN
+        ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin', 'support'));
+    END IF;
+END $$;
+
+-- Login throttling and temporary lockout
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Every login attempt, successful or not (per-IP throttling and support audit trail)
+CREATE TABLE IF NOT EXISTS login_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(255) NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    success BOOLEAN NOT NULL,
+    failure_reason VARCHAR(50),
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_address ON login_attempts(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id ON login_attempts(user_id);
+
+-- Hashed, single-use links for unlocking an account after a lockout
+CREATE TABLE IF NOT EXISTS account_unlock_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_unlock_tokens_user_id ON account_unlock_tokens(user_id);
+
+-- TOTP two-factor authentication (secret is AES-GCM encrypted; enabled once the first code is confirmed)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_totp_secret TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT;
+
+-- Hashed, single-use recovery codes for two-factor authentication
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+-- Token a session was last rotated away from; accepted for a few seconds so parallel
+-- requests silently refreshing the same cookie are not mistaken for token reuse
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS previous_refresh_token_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh_token_hash ON sessions(previous_refresh_token_hash);
+
+-- Account deletion: the row is kept (challenges reference it) but its PII is erased
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Unfinished onboarding sessions, scanned by the abandonment job by last activity
+CREATE INDEX IF NOT EXISTS idx_onboarding_sessions_open_updated_at
+    ON onboarding_sessions(updated_at)
+    WHERE completed_at IS NULL AND abandoned_at IS NULL;
+
+-- Versioned terms of service; the current version is the latest one already in effect
+CREATE TABLE IF NOT EXISTS terms_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    version VARCHAR(20) UNIQUE NOT NULL,
+    summary TEXT,
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every acceptance of a terms version (legal record, kept when an account is anonymized)
+CREATE TABLE IF NOT EXISTS terms_acceptances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    terms_version_id UUID NOT NULL REFERENCES terms_versions(id),
+    accepted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    ip_address VARCHAR(45),
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_terms_acceptances_user_id ON terms_acceptances(user_id, terms_version_id);
+
+INSERT INTO terms_versions (version, summary, effective_at)
+VALUES ('1.0', 'Initial terms of service', '2026-01-01T00:00:00Z')
+ON CONFLICT (version) DO NOTHING;
+
+-- Acceptances from before versioning count as acceptances of 1.0
+INSERT INTO terms_acceptances (user_id, terms_version_id, accepted_at)
+SELECT u.id, tv.id, u.terms_accepted_at
+FROM users u
+JOIN terms_versions tv ON tv.version = '1.0'
+WHERE u.terms_accepted_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM terms_acceptances ta WHERE ta.user_id = u.id);
+
+-- Curated challenge templates users can start from instead of the AI chat
+CREATE TABLE IF NOT EXISTS challenge_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(100) UNIQUE NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL,
+    challenge_type VARCHAR(50) NOT NULL,
+    resolution_method TEXT,
+    frequency VARCHAR(50) NOT NULL DEFAULT 'daily',
+    frequency_details JSONB DEFAULT '{}',
+    duration_days INTEGER NOT NULL,
+    deposit_usd DECIMAL(10,2) NOT NULL,
+    notification_settings JSONB DEFAULT '{}',
+    guarantors_count INTEGER NOT NULL DEFAULT 1,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_templates_type ON challenge_templates(challenge_type) WHERE is_active;
+
+CREATE TRIGGER update_challenge_templates_updated_at
+    BEFORE UPDATE ON challenge_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Template a challenge was started from, for usage and completion stats
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES challenge_templates(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_challenges_template_id ON challenges(template_id);
+
+INSERT INTO challenge_templates (
+    slug, title, description, challenge_type, resolution_method, frequency, frequency_details,
+    duration_days, deposit_usd, notification_settings, sort_order
+) VALUES
+    ('daily-skincare-ritual', 'Daily Skincare Ritual',
+     'Complete your morning and evening skincare routine every day. This includes cleansing, moisturizing, and any treatments you use.',
+     'habit', 'I''ll send a photo of my finished routine to my guarantor each evening.',
+     'daily', '{"timesPerDay": 2}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:00", "pushEnabled": true, "emailEnabled": true}', 10),
+    ('daily-movement-practice', 'Daily Movement Practice',
+     'Get at least 20 minutes of intentional physical activity each day. This could be a walk, workout, yoga, or any movement that gets your heart rate up.',
+     'fitness', 'I''ll share a screenshot of the activity from my fitness app each day.',
+     'daily', '{}', 7, 25,
+     '{"enabled": true, "reminderTime": "07:00", "pushEnabled": true, "emailEnabled": true}', 20),
+    ('daily-mindfulness-practice', 'Daily Mindfulness Practice',
+     'Spend at least 10 minutes each day in meditation or mindfulness practice. Use an app like Headspace, Calm, or simply sit in quiet reflection.',
+     'wellness', 'I''ll share my meditation app streak with my guarantor each day.',
+     'daily', '{}', 21, 75,
+     '{"enabled": true, "reminderTime": "07:30", "pushEnabled": true, "emailEnabled": true}', 30),
+    ('daily-reading-habit', 'Daily Reading Habit',
+     'Read for at least 20 minutes every day. This can be books, quality long-form articles, or educational content related to your interests.',
+     'learning', 'I''ll send a photo of the page I reached each evening.',
+     'daily', '{}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:30", "pushEnabled": true, "emailEnabled": true}', 40),
+    ('hydration-hero', 'Hydration Hero',
+     'Drink at least 8 glasses (64oz) of water every day. Track your intake using a water bottle with measurements or a simple tally.',
+     'wellness', 'I''ll send a photo of my water tracker at the end of each day.',
+     'daily', '{"timesPerDay": 8}', 7, 25,
+     '{"enabled": true, "reminderTime": "10:00", "pushEnabled": true, "emailEnabled": true}', 50),
+    ('consistent-sleep-schedule', 'Consistent Sleep Schedule',
+     'Go to bed and wake up at the same time every day (within a 30-minute window). Aim for 7-8 hours of sleep.',
+     'wellness', 'I''ll share my sleep tracker summary with my guarantor each morning.',
+     'daily', '{"specificTimes": ["22:30"]}', 14, 75,
+     '{"enabled": true, "reminderTime": "22:00", "pushEnabled": true, "emailEnabled": true}', 60),
+    ('phone-free-mornings', 'Phone-Free Mornings',
+     'Keep your phone out of reach for the first hour after waking up. No social media, news or email before your day has started.',
+     'behavioral', 'I''ll share my screen time report with my guarantor each evening.',
+     'daily', '{}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:00", "pushEnabled": true, "emailEnabled": false}', 70),
+    ('three-workouts-a-week', 'Three Workouts a Week',
+     'Complete three workouts of at least 30 minutes every week, on Monday, Wednesday and Friday.',
+     'fitness', 'I''ll send my guarantor a photo or app screenshot after each workout.',
+     'specific-days', '{"daysOfWeek": [1, 3, 5]}', 28, 100,
+     '{"enabled": true, "reminderTime": "18:00", "pushEnabled": true, "emailEnabled": true}', 80),
+    ('daily-journaling', 'Daily Journaling',
+     'Write at least one page in your journal every day - what happened, how you felt, and one thing you are grateful for.',
+     'habit', 'I''ll send a photo of the dated page to my guarantor each night.',
+     'daily', '{}', 21, 30,
+     '{"enabled": true, "reminderTime": "22:00", "pushEnabled": true, "emailEnabled": false}', 90),
+    ('language-learning-streak', 'Language Learning Streak',
+     'Study a new language for at least 15 minutes every day, with an app, a course or a tutor.',
+     'learning', 'I''ll share my language app streak with my guarantor each day.',
+     'daily', '{}', 30, 50,
+     '{"enabled": true, "reminderTime": "19:00", "pushEnabled": true, "emailEnabled": true}', 100),
+    ('weekly-inbox-zero', 'Weekly Inbox Zero',
+     'Clear your email inbox down to zero every Friday before you finish work.',
+     'productivity', 'I''ll send my guarantor a screenshot of my empty inbox every Friday.',
+     'specific-days', '{"daysOfWeek": [5]}', 28, 40,
+     '{"enabled": true, "reminderTime": "15:00", "pushEnabled": true, "emailEnabled": true}', 110),
+    ('ship-a-side-project', 'Ship a Side Project',
+     'Take a side project from idea to something other people can use, and publish it before the challenge ends.',
+     'milestone', 'I''ll send my guarantor the link to the published project.',
+     'weekly', '{"timesPerWeek": 3}', 30, 100,
+     '{"enabled": true, "reminderDaysBefore": 7, "pushEnabled": true, "emailEnabled": true}', 120)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Invite links to a user's challenge (only the SHA-256 hash of the token is stored).
+-- The challenge is shared as drafted; challenge_id is filled in once the inviter's challenge is created.
+CREATE TABLE IF NOT EXISTS challenge_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    inviter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    onboarding_session_id UUID REFERENCES onboarding_sessions(id) ON DELETE SET NULL,
+    challenge_id UUID REFERENCES challenges(id) ON DELETE SET NULL,
+    challenge_draft JSONB NOT NULL,
+    invitee_email VARCHAR(255),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_inviter_id ON challenge_invites(inviter_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_onboarding_session_id ON challenge_invites(onboarding_session_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_challenge_id ON challenge_invites(challenge_id);
+
+-- Invite a challenge was joined from; links it to the inviter's challenge
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS invite_id UUID REFERENCES challenge_invites(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_challenges_invite_id ON challenges(invite_id);
+
+-- Public challenge pages (/c/<slug>) and who can see them:
+-- public (anyone, indexed), unlisted (anyone with the link) or private (no public page)
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS slug VARCHAR(80) UNIQUE;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) NOT NULL DEFAULT 'unlisted';
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS show_deposit BOOLEAN NOT NULL DEFAULT TRUE;
+
+UPDATE challenges
+SET slug = COALESCE(NULLIF(trim(both '-' from left(regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'), 50)), ''), 'challenge')
+           || '-' || substr(md5(id::text), 1, 8)
+WHERE slug IS NULL;
+
+-- Sharing analytics: links shared by the owner and opened by visitors
+CREATE TABLE IF NOT EXISTS challenge_share_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    challenge_id UUID NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL, -- link_shared, link_opened
+    channel VARCHAR(50), -- how the link was shared (native, copy, ...)
+    event_data JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_share_events_challenge_id ON challenge_share_events(challenge_id, event_type);
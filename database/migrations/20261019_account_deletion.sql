@@ -0,0 +1,7 @@
+-- Migration: 20261019_account_deletion
+-- Description: Mark accounts that were deleted (anonymized) at the user's request
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Rollback for 20261019_account_deletion
+-- ALTER TABLE users DROP COLUMN IF EXISTS deleted_at;
@@ -0,0 +1,25 @@
+-- Migration: 20261019_challenge_invites
+-- Description: Invite links to a challenge, and the invite each joined challenge came from
+
+CREATE TABLE IF NOT EXISTS challenge_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    inviter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    onboarding_session_id UUID REFERENCES onboarding_sessions(id) ON DELETE SET NULL,
+    challenge_id UUID REFERENCES challenges(id) ON DELETE SET NULL,
+    challenge_draft JSONB NOT NULL,
+    invitee_email VARCHAR(255),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_inviter_id ON challenge_invites(inviter_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_onboarding_session_id ON challenge_invites(onboarding_session_id);
+CREATE INDEX IF NOT EXISTS idx_challenge_invites_challenge_id ON challenge_invites(challenge_id);
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS invite_id UUID REFERENCES challenge_invites(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_challenges_invite_id ON challenges(invite_id);
+
+-- Rollback for 20261019_challenge_invites
+-- ALTER TABLE challenges DROP COLUMN IF EXISTS invite_id;
+-- DROP TABLE IF EXISTS challenge_invites;
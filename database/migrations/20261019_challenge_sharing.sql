@@ -0,0 +1,28 @@
+-- Migration: 20261019_challenge_sharing
+-- Description: Public challenge page slugs, per-challenge privacy settings and share analytics
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS slug VARCHAR(80) UNIQUE;
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS visibility VARCHAR(20) NOT NULL DEFAULT 'unlisted';
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS show_deposit BOOLEAN NOT NULL DEFAULT TRUE;
+
+UPDATE challenges
+SET slug = COALESCE(NULLIF(trim(both '-' from left(regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g'), 50)), ''), 'challenge')
+           || '-' || substr(md5(id::text), 1, 8)
+WHERE slug IS NULL;
+
+CREATE TABLE IF NOT EXISTS challenge_share_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    challenge_id UUID NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL, -- link_shared, link_opened
+    channel VARCHAR(50), -- how the link was shared (native, copy, ...)
+    event_data JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_share_events_challenge_id ON challenge_share_events(challenge_id, event_type);
+
+-- Rollback for 20261019_challenge_sharing
+-- DROP TABLE IF EXISTS challenge_share_events;
+-- ALTER TABLE challenges DROP COLUMN IF EXISTS show_deposit;
+-- ALTER TABLE challenges DROP COLUMN IF EXISTS visibility;
+-- ALTER TABLE challenges DROP COLUMN IF EXISTS slug;
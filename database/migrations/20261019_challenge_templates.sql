@@ -0,0 +1,102 @@
+-- Migration: 20261019_challenge_templates
+-- Description: Curated challenge templates, seeded with the starter challenges, and the template each challenge was started from
+
+CREATE TABLE IF NOT EXISTS challenge_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(100) UNIQUE NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL,
+    challenge_type VARCHAR(50) NOT NULL,
+    resolution_method TEXT,
+    frequency VARCHAR(50) NOT NULL DEFAULT 'daily',
+    frequency_details JSONB DEFAULT '{}',
+    duration_days INTEGER NOT NULL,
+    deposit_usd DECIMAL(10,2) NOT NULL,
+    notification_settings JSONB DEFAULT '{}',
+    guarantors_count INTEGER NOT NULL DEFAULT 1,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_templates_type ON challenge_templates(challenge_type) WHERE is_active;
+
+DROP TRIGGER IF EXISTS update_challenge_templates_updated_at ON challenge_templates;
+CREATE TRIGGER update_challenge_templates_updated_at
+    BEFORE UPDATE ON challenge_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE challenges ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES challenge_templates(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_challenges_template_id ON challenges(template_id);
+
+INSERT INTO challenge_templates (
+    slug, title, description, challenge_type, resolution_method, frequency, frequency_details,
+    duration_days, deposit_usd, notification_settings, sort_order
+) VALUES
+    ('daily-skincare-ritual', 'Daily Skincare Ritual',
+     'Complete your morning and evening skincare routine every day. This includes cleansing, moisturizing, and any treatments you use.',
+     'habit', 'I''ll send a photo of my finished routine to my guarantor each evening.',
+     'daily', '{"timesPerDay": 2}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:00", "pushEnabled": true, "emailEnabled": true}', 10),
+    ('daily-movement-practice', 'Daily Movement Practice',
+     'Get at least 20 minutes of intentional physical activity each day. This could be a walk, workout, yoga, or any movement that gets your heart rate up.',
+     'fitness', 'I''ll share a screenshot of the activity from my fitness app each day.',
+     'daily', '{}', 7, 25,
+     '{"enabled": true, "reminderTime": "07:00", "pushEnabled": true, "emailEnabled": true}', 20),
+    ('daily-mindfulness-practice', 'Daily Mindfulness Practice',
+     'Spend at least 10 minutes each day in meditation or mindfulness practice. Use an app like Headspace, Calm, or simply sit in quiet reflection.',
+     'wellness', 'I''ll share my meditation app streak with my guarantor each day.',
+     'daily', '{}', 21, 75,
+     '{"enabled": true, "reminderTime": "07:30", "pushEnabled": true, "emailEnabled": true}', 30),
+    ('daily-reading-habit', 'Daily Reading Habit',
+     'Read for at least 20 minutes every day. This can be books, quality long-form articles, or educational content related to your interests.',
+     'learning', 'I''ll send a photo of the page I reached each evening.',
+     'daily', '{}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:30", "pushEnabled": true, "emailEnabled": true}', 40),
+    ('hydration-hero', 'Hydration Hero',
+     'Drink at least 8 glasses (64oz) of water every day. Track your intake using a water bottle with measurements or a simple tally.',
+     'wellness', 'I''ll send a photo of my water tracker at the end of each day.',
+     'daily', '{"timesPerDay": 8}', 7, 25,
+     '{"enabled": true, "reminderTime": "10:00", "pushEnabled": true, "emailEnabled": true}', 50),
+    ('consistent-sleep-schedule', 'Consistent Sleep Schedule',
+     'Go to bed and wake up at the same time every day (within a 30-minute window). Aim for 7-8 hours of sleep.',
+     'wellness', 'I''ll share my sleep tracker summary with my guarantor each morning.',
+     'daily', '{"specificTimes": ["22:30"]}', 14, 75,
+     '{"enabled": true, "reminderTime": "22:00", "pushEnabled": true, "emailEnabled": true}', 60),
+    ('phone-free-mornings', 'Phone-Free Mornings',
+     'Keep your phone out of reach for the first hour after waking up. No social media, news or email before your day has started.',
+     'behavioral', 'I''ll share my screen time report with my guarantor each evening.',
+     'daily', '{}', 14, 50,
+     '{"enabled": true, "reminderTime": "21:00", "pushEnabled": true, "emailEnabled": false}', 70),
+    ('three-workouts-a-week', 'Three Workouts a Week',
+     'Complete three workouts of at least 30 minutes every week, on Monday, Wednesday and Friday.',
+     'fitness', 'I''ll send my guarantor a photo or app screenshot after each workout.',
+     'specific-days', '{"daysOfWeek": [1, 3, 5]}', 28, 100,
+     '{"enabled": true, "reminderTime": "18:00", "pushEnabled": true, "emailEnabled": true}', 80),
+    ('daily-journaling', 'Daily Journaling',
+     'Write at least one page in your journal every day - what happened, how you felt, and one thing you are grateful for.',
+     'habit', 'I''ll send a photo of the dated page to my guarantor each night.',
+     'daily', '{}', 21, 30,
+     '{"enabled": true, "reminderTime": "22:00", "pushEnabled": true, "emailEnabled": false}', 90),
+    ('language-learning-streak', 'Language Learning Streak',
+     'Study a new language for at least 15 minutes every day, with an app, a course or a tutor.',
+     'learning', 'I''ll share my language app streak with my guarantor each day.',
+     'daily', '{}', 30, 50,
+     '{"enabled": true, "reminderTime": "19:00", "pushEnabled": true, "emailEnabled": true}', 100),
+    ('weekly-inbox-zero', 'Weekly Inbox Zero',
+     'Clear your email inbox down to zero every Friday before you finish work.',
+     'productivity', 'I''ll send my guarantor a screenshot of my empty inbox every Friday.',
+     'specific-days', '{"daysOfWeek": [5]}', 28, 40,
+     '{"enabled": true, "reminderTime": "15:00", "pushEnabled": true, "emailEnabled": true}', 110),
+    ('ship-a-side-project', 'Ship a Side Project',
+     'Take a side project from idea to something other people can use, and publish it before the challenge ends.',
+     'milestone', 'I''ll send my guarantor the link to the published project.',
+     'weekly', '{"timesPerWeek": 3}', 30, 100,
+     '{"enabled": true, "reminderDaysBefore": 7, "pushEnabled": true, "emailEnabled": true}', 120)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Rollback for 20261019_challenge_templates
+-- ALTER TABLE challenges DROP COLUMN IF EXISTS template_id;
+-- DROP TABLE IF EXISTS challenge_templates;
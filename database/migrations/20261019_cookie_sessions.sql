@@ -0,0 +1,12 @@
+-- Migration: 20261019_cookie_sessions
+-- Description: Remember the previous refresh token hash for cookie session rotation grace
+
+-- Token a session was last rotated away from; accepted for a few seconds so parallel
+-- requests silently refreshing the same cookie are not mistaken for token reuse
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS previous_refresh_token_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_previous_refresh_token_hash ON sessions(previous_refresh_token_hash);
+
+-- Rollback for 20261019_cookie_sessions
+-- DROP INDEX IF EXISTS idx_sessions_previous_refresh_token_hash;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS previous_refresh_token_hash;
@@ -0,0 +1,9 @@
+-- Migration: 20261019_onboarding_abandonment
+-- Description: Index unfinished onboarding sessions for the abandonment job
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_sessions_open_updated_at
+    ON onboarding_sessions(updated_at)
+    WHERE completed_at IS NULL AND abandoned_at IS NULL;
+
+-- Rollback for 20261019_onboarding_abandonment
+-- DROP INDEX IF EXISTS idx_onboarding_sessions_open_updated_at;
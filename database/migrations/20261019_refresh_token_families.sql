@@ -0,0 +1,56 @@
+-- Migration: 20261019_refresh_token_families
+-- Description: Store refresh tokens hashed, group them into rotation families and add a security audit log
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS family_id UUID;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS refresh_token_hash VARCHAR(64);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS last_rotated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_reason VARCHAR(50);
+
+-- Backfill existing sessions: each becomes its own family and its token is hashed
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'sessions' AND column_name = 'refresh_token'
+    ) THEN
+        UPDATE sessions
+        SET family_id = COALESCE(family_id, id),
+            refresh_token_hash = COALESCE(refresh_token_hash, encode(sha256(convert_to(refresh_token, 'UTF8')), 'hex'));
+    END IF;
+END $$;
+
+ALTER TABLE sessions ALTER COLUMN family_id SET NOT NULL;
+ALTER TABLE sessions ALTER COLUMN refresh_token_hash SET NOT NULL;
+
+-- Drop the plaintext token column
+DROP INDEX IF EXISTS idx_sessions_refresh_token;
+ALTER TABLE sessions DROP COLUMN IF EXISTS refresh_token;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_family_id ON sessions(family_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_refresh_token_hash ON sessions(refresh_token_hash);
+
+-- Security audit log
+CREATE TABLE IF NOT EXISTS security_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    event_type VARCHAR(100) NOT NULL,
+    event_data JSONB DEFAULT '{}',
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_user_id ON security_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_security_events_event_type ON security_events(event_type);
+
+-- Rollback for 20261019_refresh_token_families
+-- Plaintext tokens cannot be restored; existing sessions must log in again.
+-- DROP TABLE IF EXISTS security_events;
+-- DELETE FROM sessions;
+-- ALTER TABLE sessions ADD COLUMN IF NOT EXISTS refresh_token VARCHAR(500) NOT NULL;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS family_id;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS refresh_token_hash;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS last_rotated_at;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS revoked_at;
+-- ALTER TABLE sessions DROP COLUMN IF EXISTS revoked_reason;
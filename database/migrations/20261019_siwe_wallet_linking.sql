@@ -0,0 +1,23 @@
+-- Migration: 20261019_siwe_wallet_linking
+-- Description: Track SIWE-verified wallet links and store single-use SIWE nonces
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS wallet_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- A wallet can only be linked to one account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_wallet_address_unique
+    ON users(LOWER(wallet_address)) WHERE wallet_address IS NOT NULL;
+
+-- Single-use nonces for Sign-In with Ethereum (EIP-4361) messages
+CREATE TABLE IF NOT EXISTS siwe_nonces (
+    nonce VARCHAR(96) PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_siwe_nonces_expires_at ON siwe_nonces(expires_at);
+
+-- Rollback for 20261019_siwe_wallet_linking
+-- DROP TABLE IF EXISTS siwe_nonces;
+-- DROP INDEX IF EXISTS idx_users_wallet_address_unique;
+-- ALTER TABLE users DROP COLUMN IF EXISTS wallet_verified_at;
@@ -0,0 +1,36 @@
+-- Migration: 20261019_terms_versions
+-- Description: Versioned terms of service and per-user acceptance history (version, IP, user agent)
+
+CREATE TABLE IF NOT EXISTS terms_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    version VARCHAR(20) UNIQUE NOT NULL,
+    summary TEXT,
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS terms_acceptances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    terms_version_id UUID NOT NULL REFERENCES terms_versions(id),
+    accepted_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    ip_address VARCHAR(45),
+    user_agent TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_terms_acceptances_user_id ON terms_acceptances(user_id, terms_version_id);
+
+INSERT INTO terms_versions (version, summary, effective_at)
+VALUES ('1.0', 'Initial terms of service', '2026-01-01T00:00:00Z')
+ON CONFLICT (version) DO NOTHING;
+
+INSERT INTO terms_acceptances (user_id, terms_version_id, accepted_at)
+SELECT u.id, tv.id, u.terms_accepted_at
+FROM users u
+JOIN terms_versions tv ON tv.version = '1.0'
+WHERE u.terms_accepted_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM terms_acceptances ta WHERE ta.user_id = u.id);
+
+-- Rollback for 20261019_terms_versions
+-- DROP TABLE IF EXISTS terms_acceptances;
+-- DROP TABLE IF EXISTS terms_versions;
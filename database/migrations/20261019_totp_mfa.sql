@@ -0,0 +1,24 @@
+-- Migration: 20261019_totp_mfa
+-- Description: Add TOTP two-factor authentication and recovery codes
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_totp_secret TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT;
+
+-- Hashed, single-use recovery codes for two-factor authentication
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+-- Rollback for 20261019_totp_mfa
+-- DROP TABLE IF EXISTS mfa_recovery_codes;
+-- ALTER TABLE users DROP COLUMN IF EXISTS mfa_last_used_step;
+-- ALTER TABLE users DROP COLUMN IF EXISTS mfa_enabled_at;
+-- ALTER TABLE users DROP COLUMN IF EXISTS mfa_totp_secret;
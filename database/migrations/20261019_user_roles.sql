@@ -0,0 +1,20 @@
+-- Migration: 20261019_user_roles
+-- Description: Add user roles (user, admin, support) for route authorization
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'users_role_check'
+    ) THEN
+        ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'admin', 'support'));
+    END IF;
+END $$;
+
+-- Grant admin manually, e.g.:
+-- UPDATE users SET role = 'admin' WHERE email = 'you@example.com';
+
+-- Rollback for 20261019_user_roles
+-- ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+-- ALTER TABLE users DROP COLUMN IF EXISTS role;
@@ -0,0 +1,7 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Fail at startup rather than on the first email when mail is not configured
+    const { getMailTransport } = await import("./lib/mail");
+    getMailTransport();
+  }
+}
@@ -0,0 +1,121 @@
+import type { ChatCompletion } from './index';
+import {
+  createAIConversation,
+  getAIConversation,
+  getOnboardingSession,
+  trackOnboardingEvent,
+  updateAIConversation,
+  updateOnboardingSession,
+} from '@/lib/db/onboarding';
+import { isUuid } from '@/lib/validation';
+import type { AIConversation, AIMessage, SuggestedChallenge } from '@/types/onboarding';
+
+export interface ChatTurn {
+  userId: string;
+  sessionId: string;
+  conversation: AIConversation;
+  // Conversation history including the new user message
+  messages: AIMessage[];
+}
+
+// Whether the onboarding session exists and belongs to the user
+export async function isOwnSession(userId: string, sessionId: string): Promise<boolean> {
+  if (!isUuid(sessionId)) return false;
+  const session = await getOnboardingSession(sessionId);
+  return session?.user_id === userId;
+}
+
+function createMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+}
+
+// Start a turn: load (or create) the conversation and append the user's message.
+// Nothing is persisted until the reply is saved. Returns null if the onboarding
+// session or the conversation is unknown or belongs to someone else.
+export async function startChatTurn(
+  userId: string,
+  input: { sessionId: string; conversationId?: string; message: string }
+): Promise<ChatTurn | null> {
+  if (!(await isOwnSession(userId, input.sessionId))) return null;
+
+  // Get or create conversation
+  let conversation;
+  if (input.conversationId) {
+    if (!isUuid(input.conversationId)) return null;
+    conversation = await getAIConversation(input.conversationId, userId);
+    if (!conversation) return null;
+  } else {
+    conversation = await createAIConversation(userId, input.sessionId);
+  }
+
+  const userMessage: AIMessage = {
+    id: createMessageId(),
+    role: 'user',
+    content: input.message,
+    timestamp: new Date(),
+  };
+
+  // Track user message
+  await trackOnboardingEvent(
+    input.sessionId,
+    userId,
+    'ai_message_sent',
+    'ai-chat',
+    { messageLength: input.message.length }
+  );
+
+  return {
+    userId,
+    sessionId: input.sessionId,
+    conversation,
+    messages: [...(conversation.messages || []), userMessage],
+  };
+}
+
+// Persist the completed reply with the user's message, and record model and token usage
+export async function saveChatReply(
+  turn: ChatTurn,
+  completion: ChatCompletion
+): Promise<{ message: AIMessage; suggestedChallenges: SuggestedChallenge[] }> {
+  const assistantMessage: AIMessage = {
+    id: createMessageId(),
+    role: 'assistant',
+    content: completion.content,
+    timestamp: new Date(),
+    suggestedChallenge: completion.suggestedChallenge,
+  };
+
+  const messages = [...turn.messages, assistantMessage];
+
+  // Update suggested challenges if we have a new one
+  const suggestedChallenges = [...(turn.conversation.suggested_challenges || [])];
+  if (completion.suggestedChallenge) {
+    suggestedChallenges.push(completion.suggestedChallenge);
+  }
+
+  await updateAIConversation(turn.conversation.id, {
+    messages,
+    suggested_challenges: suggestedChallenges,
+    model_used: completion.model,
+    total_tokens_used: (turn.conversation.total_tokens_used || 0) + completion.tokensUsed,
+  });
+
+  // Update onboarding session with AI messages
+  await updateOnboardingSession(turn.sessionId, {
+    ai_messages: messages,
+  });
+
+  // Track AI response
+  await trackOnboardingEvent(
+    turn.sessionId,
+    turn.userId,
+    'ai_message_received',
+    'ai-chat',
+    {
+      hasSuggestion: !!completion.suggestedChallenge,
+      suggestionTitle: completion.suggestedChallenge?.title,
+    }
+  );
+
+  return { message: assistantMessage, suggestedChallenges };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { validateSuggestedChallenge } from './extraction';
+
+const SUGGESTION = {
+  title: '  Morning stretch  ',
+  description: 'Ten minutes of stretching after waking up',
+  type: 'wellness',
+  suggestedFrequency: 'specific-days',
+  suggestedDuration: 21,
+  suggestedDeposit: 40,
+  reasoning: 'Short and easy to keep up',
+};
+
+describe('validateSuggestedChallenge', () => {
+  it('accepts a suggestion with only the required fields', () => {
+    expect(validateSuggestedChallenge(SUGGESTION)).toEqual({
+      ...SUGGESTION,
+      title: 'Morning stretch',
+    });
+  });
+
+  it('rejects values that are not objects', () => {
+    for (const value of [null, 'challenge', 42, [SUGGESTION]]) {
+      expect(validateSuggestedChallenge(value)).toBeNull();
+    }
+  });
+
+  it('rejects a missing or invalid required field', () => {
+    const invalid = [
+      { title: '  ' },
+      { title: 'x'.repeat(256) },
+      { description: undefined },
+      { suggestedDuration: 0 },
+      { suggestedDuration: 7.5 },
+      { suggestedDuration: 366 },
+      { suggestedDeposit: 0.5 },
+      { suggestedDeposit: 10001 },
+      { suggestedDeposit: '40' },
+    ];
+    for (const fields of invalid) {
+      expect(validateSuggestedChallenge({ ...SUGGESTION, ...fields })).toBeNull();
+    }
+  });
+
+  it('falls back to defaults with zero confidence for unknown enum values', () => {
+    const suggestion = validateSuggestedChallenge({
+      ...SUGGESTION,
+      type: 'sports',
+      suggestedFrequency: 'hourly',
+      confidence: { type: 0.9, title: 0.8 },
+    });
+    expect(suggestion).toMatchObject({
+      type: 'custom',
+      suggestedFrequency: 'daily',
+      confidence: { type: 0, frequency: 0, title: 0.8 },
+    });
+  });
+
+  it('keeps valid optional fields', () => {
+    const suggestion = validateSuggestedChallenge({
+      ...SUGGESTION,
+      resolutionMethod: ' A photo every morning ',
+      frequencyDetails: { daysOfWeek: [5, 1, 3, 1], specificTimes: ['07:30'] },
+      notificationSettings: { enabled: true, reminderTime: '07:00', emailEnabled: false },
+      guarantorsCount: 3,
+    });
+    expect(suggestion).toMatchObject({
+      resolutionMethod: 'A photo every morning',
+      frequencyDetails: { daysOfWeek: [1, 3, 5], specificTimes: ['07:30'] },
+      notificationSettings: { enabled: true, reminderTime: '07:00', emailEnabled: false },
+      guarantorsCount: 3,
+    });
+  });
+
+  it('drops invalid optional fields', () => {
+    const suggestion = validateSuggestedChallenge({
+      ...SUGGESTION,
+      resolutionMethod: '',
+      frequencyDetails: { daysOfWeek: [7], timesPerDay: 0, specificTimes: ['7am'] },
+      notificationSettings: { reminderTime: '07:00' },
+      guarantorsCount: 11,
+    });
+    expect(suggestion).toEqual({ ...SUGGESTION, title: 'Morning stretch' });
+  });
+
+  it('clamps confidence scores and ignores unknown fields', () => {
+    const suggestion = validateSuggestedChallenge({
+      ...SUGGESTION,
+      confidence: { title: 1.5, depositAmount: -1, durationDays: 'high', reasoning: 0.9 },
+    });
+    expect(suggestion?.confidence).toEqual({ title: 1, depositAmount: 0 });
+  });
+});
@@ -0,0 +1,234 @@
+// Structured challenge extraction: validate what the AI suggested and map it onto
+// the full ChallengeDraft. No server-only imports, the onboarding page uses it too.
+
+import type {
+  ChallengeDraft,
+  ChallengeType,
+  FieldConfidence,
+  FrequencyDetails,
+  FrequencyType,
+  NotificationSettings,
+  SuggestedChallenge,
+} from '@/types/onboarding';
+import {
+  CHALLENGE_TYPES,
+  FREQUENCY_TYPES,
+  isInteger,
+  MAX_DEPOSIT_USD,
+  MAX_DURATION_DAYS,
+  MAX_GUARANTORS,
+  MAX_TITLE_LENGTH,
+  MIN_DEPOSIT_USD,
+  TIME_OF_DAY_REGEX,
+} from '@/lib/onboarding/validation';
+
+// Draft fields the AI fills in, and can report a confidence for
+export const AI_DRAFT_FIELDS: (keyof ChallengeDraft)[] = [
+  'title',
+  'description',
+  'type',
+  'frequency',
+  'durationDays',
+  'depositAmount',
+  'resolutionMethod',
+  'frequencyDetails',
+  'notificationSettings',
+  'guarantorsCount',
+];
+
+// Fields the AI is less sure about than this are highlighted for review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+// Assumed when the model filled a field without saying how sure it was
+const DEFAULT_CONFIDENCE = 0.5;
+
+/**
+ * Validate a suggestion produced by a model (or sent back by the client).
+ * Returns null when a required field is missing or invalid; invalid optional
+ * fields are dropped so the user fills them in instead.
+ */
+export function validateSuggestedChallenge(value: unknown): SuggestedChallenge | null {
+  if (!isObject(value)) return null;
+
+  const { title, description, suggestedDuration, suggestedDeposit, reasoning } = value;
+
+  if (
+    typeof title !== 'string' ||
+    !title.trim() ||
+    title.length > MAX_TITLE_LENGTH ||
+    typeof description !== 'string' ||
+    !isInteger(suggestedDuration, 1, MAX_DURATION_DAYS) ||
+    typeof suggestedDeposit !== 'number' ||
+    suggestedDeposit < MIN_DEPOSIT_USD ||
+    suggestedDeposit > MAX_DEPOSIT_USD
+  ) {
+    return null;
+  }
+
+  const confidence = validateConfidence(value.confidence);
+
+  // Unknown enum values fall back to a default the user has to confirm
+  let type = value.type as ChallengeType;
+  if (!CHALLENGE_TYPES.includes(type)) {
+    type = 'custom';
+    confidence.type = 0;
+  }
+
+  let suggestedFrequency = value.suggestedFrequency as FrequencyType;
+  if (!FREQUENCY_TYPES.includes(suggestedFrequency)) {
+    suggestedFrequency = 'daily';
+    confidence.frequency = 0;
+  }
+
+  const suggestion: SuggestedChallenge = {
+    title: title.trim(),
+    description,
+    type,
+    suggestedFrequency,
+    suggestedDuration: suggestedDuration as number,
+    suggestedDeposit,
+    reasoning: typeof reasoning === 'string' ? reasoning : '',
+  };
+
+  if (typeof value.resolutionMethod === 'string' && value.resolutionMethod.trim()) {
+    suggestion.resolutionMethod = value.resolutionMethod.trim();
+  }
+
+  const frequencyDetails = validateFrequencyDetails(value.frequencyDetails);
+  if (frequencyDetails) suggestion.frequencyDetails = frequencyDetails;
+
+  const notificationSettings = validateNotificationSettings(value.notificationSettings);
+  if (notificationSettings) suggestion.notificationSettings = notificationSettings;
+
+  if (isInteger(value.guarantorsCount, 1, MAX_GUARANTORS)) {
+    suggestion.guarantorsCount = value.guarantorsCount as number;
+  }
+
+  if (Object.keys(confidence).length > 0) suggestion.confidence = confidence;
+
+  return suggestion;
+}
+
+/**
+ * Map a suggestion onto the challenge draft, with a confidence for every field it fills
+ */
+export function suggestionToDraft(
+  suggestion: SuggestedChallenge,
+  aiConversationId?: string
+): ChallengeDraft {
+  const draft: ChallengeDraft = {
+    title: suggestion.title,
+    description: suggestion.description,
+    type: suggestion.type,
+    frequency: suggestion.suggestedFrequency,
+    durationDays: suggestion.suggestedDuration,
+    depositAmount: suggestion.suggestedDeposit,
+    resolutionMethod: suggestion.resolutionMethod,
+    frequencyDetails: suggestion.frequencyDetails,
+    notificationSettings: suggestion.notificationSettings,
+    guarantorsCount: suggestion.guarantorsCount,
+    aiSuggested: true,
+    aiConversationId,
+  };
+
+  const aiConfidence: FieldConfidence = {};
+  for (const field of AI_DRAFT_FIELDS) {
+    if (draft[field] === undefined) {
+      delete draft[field];
+    } else {
+      aiConfidence[field] = suggestion.confidence?.[field] ?? DEFAULT_CONFIDENCE;
+    }
+  }
+
+  return { ...draft, aiConfidence };
+}
+
+/**
+ * Whether a field was filled in by the AI with low confidence and not yet reviewed
+ */
+export function needsReview(draft: ChallengeDraft, field: keyof ChallengeDraft): boolean {
+  const confidence = draft.aiConfidence?.[field];
+  return confidence !== undefined && confidence < REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Clear the review highlight once the user has gone over the fields
+ */
+export function markFieldsReviewed(
+  draft: ChallengeDraft,
+  fields: (keyof ChallengeDraft)[]
+): ChallengeDraft {
+  if (!draft.aiConfidence) return draft;
+
+  const aiConfidence = { ...draft.aiConfidence };
+  for (const field of fields) {
+    delete aiConfidence[field];
+  }
+  return { ...draft, aiConfidence };
+}
+
+function validateConfidence(value: unknown): FieldConfidence {
+  const confidence: FieldConfidence = {};
+  if (!isObject(value)) return confidence;
+
+  for (const field of AI_DRAFT_FIELDS) {
+    const score = value[field];
+    if (typeof score === 'number' && Number.isFinite(score)) {
+      confidence[field] = Math.min(1, Math.max(0, score));
+    }
+  }
+  return confidence;
+}
+
+function validateFrequencyDetails(value: unknown): FrequencyDetails | undefined {
+  if (!isObject(value)) return undefined;
+
+  const details: FrequencyDetails = {};
+
+  if (
+    Array.isArray(value.daysOfWeek) &&
+    value.daysOfWeek.length > 0 &&
+    value.daysOfWeek.every((day) => isInteger(day, 0, 6))
+  ) {
+    details.daysOfWeek = Array.from(new Set(value.daysOfWeek as number[])).sort((a, b) => a - b);
+  }
+  if (isInteger(value.timesPerWeek, 1, 7)) {
+    details.timesPerWeek = value.timesPerWeek as number;
+  }
+  if (isInteger(value.timesPerDay, 1, 24)) {
+    details.timesPerDay = value.timesPerDay as number;
+  }
+  if (
+    Array.isArray(value.specificTimes) &&
+    value.specificTimes.length > 0 &&
+    value.specificTimes.every((time) => typeof time === 'string' && TIME_OF_DAY_REGEX.test(time))
+  ) {
+    details.specificTimes = value.specificTimes as string[];
+  }
+  if (typeof value.customSchedule === 'string' && value.customSchedule.trim()) {
+    details.customSchedule = value.customSchedule.trim();
+  }
+
+  return Object.keys(details).length > 0 ? details : undefined;
+}
+
+function validateNotificationSettings(value: unknown): NotificationSettings | undefined {
+  if (!isObject(value) || typeof value.enabled !== 'boolean') return undefined;
+
+  const settings: NotificationSettings = { enabled: value.enabled };
+
+  if (typeof value.reminderTime === 'string' && TIME_OF_DAY_REGEX.test(value.reminderTime)) {
+    settings.reminderTime = value.reminderTime;
+  }
+  if (isInteger(value.reminderDaysBefore, 0, MAX_DURATION_DAYS)) {
+    settings.reminderDaysBefore = value.reminderDaysBefore as number;
+  }
+  for (const channel of ['pushEnabled', 'emailEnabled', 'smsEnabled'] as const) {
+    if (typeof value[channel] === 'boolean') settings[channel] = value[channel];
+  }
+
+  return settings;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,308 @@
+/**
+ * Onboarding AI chat
+ *
+ * Replies come from a pluggable provider selected with AI_PROVIDER:
+ * - "mock" (default): offline keyword matcher, no API calls
+ * - "openai": OpenAI chat completions using OPENAI_API_KEY (model OPENAI_MODEL, base URL OPENAI_BASE_URL)
+ * - "anthropic": Anthropic Messages API using ANTHROPIC_API_KEY (model ANTHROPIC_MODEL)
+ * - "local": any OpenAI-compatible server (Ollama, llama.cpp, vLLM...) at LOCAL_AI_BASE_URL (model LOCAL_AI_MODEL)
+ */
+
+import { createMockProvider } from './mock';
+import {
+  getVisibleReplyLength,
+  parseAssistantReply,
+  SUGGESTION_FORMAT_PROMPT,
+  SYSTEM_PROMPT,
+} from './prompt';
+import { readServerSentEvents } from './sse';
+import type { AIMessage, SuggestedChallenge } from '@/types/onboarding';
+
+const AI_REQUEST_TIMEOUT_MS = 30_000;
+const MAX_REPLY_TOKENS = 1024;
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Model that produced a reply and tokens billed for the call (prompt + reply)
+export interface ChatUsage {
+  model: string;
+  tokensUsed: number;
+}
+
+export interface ChatCompletion extends ChatUsage {
+  content: string;
+  suggestedChallenge?: SuggestedChallenge;
+}
+
+export interface ChatProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[]): Promise<ChatCompletion>;
+  // Yields the raw reply text as it is generated and returns the usage at the end
+  stream(messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string, ChatUsage>;
+}
+
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; completion: ChatCompletion };
+
+/**
+ * Calls an OpenAI-compatible /chat/completions endpoint (hosted or local)
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): ChatProvider {
+  const request = async (messages: ChatMessage[], stream: boolean, signal?: AbortSignal) => {
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        max_tokens: MAX_REPLY_TOKENS,
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal: withTimeout(signal),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${options.name} request failed (${response.status}): ${error}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: options.name,
+    model: options.model,
+    async complete(messages) {
+      const data = await (await request(messages, false)).json();
+
+      return {
+        ...parseAssistantReply(data.choices?.[0]?.message?.content || ''),
+        model: data.model || options.model,
+        tokensUsed: data.usage?.total_tokens || 0,
+      };
+    },
+    async *stream(messages, signal) {
+      const response = await request(messages, true, signal);
+      const usage: ChatUsage = { model: options.model, tokensUsed: 0 };
+
+      for await (const event of readServerSentEvents(response.body!)) {
+        if (event.data === '[DONE]') break;
+
+        const chunk = JSON.parse(event.data);
+        if (chunk.model) usage.model = chunk.model;
+        if (chunk.usage?.total_tokens) usage.tokensUsed = chunk.usage.total_tokens;
+
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+
+      return usage;
+    },
+  };
+}
+
+/**
+ * Calls the Anthropic Messages API
+ */
+export function createAnthropicProvider(options: {
+  model: string;
+  apiKey: string | undefined;
+}): ChatProvider {
+  const request = async (messages: ChatMessage[], stream: boolean, signal?: AbortSignal) => {
+    if (!options.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable is not set');
+    }
+
+    // The system prompt is a separate field in this API
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': options.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: options.model,
+        system,
+        messages: messages.filter((message) => message.role !== 'system'),
+        max_tokens: MAX_REPLY_TOKENS,
+        ...(stream && { stream: true }),
+      }),
+      signal: withTimeout(signal),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`anthropic request failed (${response.status}): ${error}`);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'anthropic',
+    model: options.model,
+    async complete(messages) {
+      const data = await (await request(messages, false)).json();
+      const reply = (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+
+      return {
+        ...parseAssistantReply(reply),
+        model: data.model || options.model,
+        tokensUsed: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
+      };
+    },
+    async *stream(messages, signal) {
+      const response = await request(messages, true, signal);
+      const usage: ChatUsage = { model: options.model, tokensUsed: 0 };
+
+      for await (const event of readServerSentEvents(response.body!)) {
+        const data = JSON.parse(event.data);
+
+        switch (data.type) {
+          case 'message_start':
+            usage.model = data.message?.model || usage.model;
+            usage.tokensUsed += data.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (data.delta?.type === 'text_delta') yield data.delta.text;
+            break;
+          case 'message_delta':
+            usage.tokensUsed += data.usage?.output_tokens || 0;
+            break;
+          case 'error':
+            throw new Error(`anthropic stream failed: ${data.error?.message}`);
+        }
+      }
+
+      return usage;
+    },
+  };
+}
+
+// Abort slow provider calls, as well as calls whose client went away
+function withTimeout(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(AI_REQUEST_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+let provider: ChatProvider | null = null;
+
+/**
+ * Get the configured chat provider
+ */
+export function getChatProvider(): ChatProvider {
+  if (provider) return provider;
+
+  switch (process.env.AI_PROVIDER || 'mock') {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY environment variable is not set');
+      }
+      provider = createOpenAICompatibleProvider({
+        name: 'openai',
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+      break;
+    case 'anthropic':
+      provider = createAnthropicProvider({
+        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+        apiKey: process.env.ANTHROPIC_API_KEY,
+      });
+      break;
+    case 'local':
+      provider = createOpenAICompatibleProvider({
+        name: 'local',
+        baseUrl: process.env.LOCAL_AI_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_AI_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_AI_API_KEY,
+      });
+      break;
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    default:
+      throw new Error(`Unsupported AI_PROVIDER: ${process.env.AI_PROVIDER}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Override the chat provider (e.g. for scripts or alternative providers)
+ */
+export function setChatProvider(customProvider: ChatProvider | null): void {
+  provider = customProvider;
+}
+
+function toChatMessages(messages: AIMessage[]): ChatMessage[] {
+  return [
+    { role: 'system', content: `${SYSTEM_PROMPT}\n\n${SUGGESTION_FORMAT_PROMPT}` },
+    ...messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({ role: message.role, content: message.content })),
+  ];
+}
+
+/**
+ * Generate the assistant's next reply to an onboarding conversation
+ */
+export async function generateAIResponse(messages: AIMessage[]): Promise<ChatCompletion> {
+  return getChatProvider().complete(toChatMessages(messages));
+}
+
+/**
+ * Stream the assistant's next reply: text deltas as they are generated (without
+ * the suggestion block), then the parsed completion. Stops silently once `signal` aborts.
+ */
+export async function* streamAIResponse(
+  messages: AIMessage[],
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  const stream = getChatProvider().stream(toChatMessages(messages), signal);
+  let reply = '';
+  let shown = 0;
+
+  for (;;) {
+    const next = await stream.next();
+    if (signal?.aborted) return;
+
+    if (next.done) {
+      yield { type: 'done', completion: { ...parseAssistantReply(reply), ...next.value } };
+      return;
+    }
+
+    reply += next.value;
+    const visible = getVisibleReplyLength(reply);
+    if (visible > shown) {
+      yield { type: 'delta', text: reply.slice(shown, visible) };
+      shown = visible;
+    }
+  }
+}
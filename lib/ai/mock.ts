@@ -0,0 +1,206 @@
+import type { ChallengeType, FieldConfidence, SuggestedChallenge } from '@/types/onboarding';
+import type { ChatMessage, ChatProvider } from './index';
+import { formatSuggestionBlock } from './prompt';
+
+export const MOCK_MODEL = 'keyword-mock';
+
+// Keyword matches are sure of the challenge itself and guess the rest
+const MOCK_CONFIDENCE: FieldConfidence = {
+  title: 0.9,
+  description: 0.8,
+  type: 0.8,
+  frequency: 0.8,
+  durationDays: 0.6,
+  depositAmount: 0.6,
+  resolutionMethod: 0.5,
+  frequencyDetails: 0.5,
+  notificationSettings: 0.5,
+  guarantorsCount: 0.4,
+};
+
+/**
+ * Offline provider: canned replies picked by keywords in the latest user message.
+ * Used for development and whenever no AI provider is configured.
+ */
+export function createMockProvider(): ChatProvider {
+  return {
+    name: 'mock',
+    model: MOCK_MODEL,
+    async complete(messages) {
+      return { ...replyTo(messages), model: MOCK_MODEL, tokensUsed: 0 };
+    },
+    // Streams word by word, with the suggestion in the same block a model would write
+    async *stream(messages) {
+      const { content, suggestedChallenge } = replyTo(messages);
+      const reply = suggestedChallenge
+        ? `${content}\n\n${formatSuggestionBlock(suggestedChallenge)}`
+        : content;
+
+      for (const word of reply.split(/(?<=\s)/)) {
+        yield word;
+      }
+
+      return { model: MOCK_MODEL, tokensUsed: 0 };
+    },
+  };
+}
+
+function replyTo(messages: ChatMessage[]) {
+  const userMessage = [...messages].reverse().find((message) => message.role === 'user');
+  return generateMockReply(
+    messages.filter((message) => message.role !== 'system'),
+    userMessage?.content || ''
+  );
+}
+
+function generateMockReply(
+  messages: ChatMessage[],
+  userMessage: string
+): { content: string; suggestedChallenge?: SuggestedChallenge } {
+  const lowerMessage = userMessage.toLowerCase();
+  
+  // Initial greeting
+  if (messages.length <= 2) {
+    return {
+      content: `Welcome! I'm here to help you discover a challenge that will make a real difference in your life.
+
+The most powerful challenges are often the simple ones - things we know we should do but struggle to stay consistent with. Things like maintaining a skincare routine, drinking enough water, or going for a daily walk.
+
+What's something you've been meaning to do more consistently? Or is there a habit you'd like to build?`,
+    };
+  }
+
+  // Detect challenge-related keywords
+  if (lowerMessage.includes('skincare') || lowerMessage.includes('skin care')) {
+    return {
+      content: `A skincare routine is a perfect challenge! It's exactly the kind of daily habit that compounds over time - both for your skin and for building discipline.
+
+Here's what I'd suggest for you:`,
+      suggestedChallenge: {
+        title: 'Daily Skincare Ritual',
+        description: 'Complete your morning and evening skincare routine every day. This includes cleansing, moisturizing, and any treatments you use.',
+        type: 'habit' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 14,
+        suggestedDeposit: 50,
+        reasoning: 'Two weeks is enough to start seeing results and building the habit. A $50 deposit is meaningful without being overwhelming - think of it as investing in yourself.',
+        resolutionMethod: 'I\'ll send a photo of my finished routine to my guarantor each evening.',
+        frequencyDetails: { timesPerDay: 2 },
+        notificationSettings: { enabled: true, reminderTime: '21:00', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  if (lowerMessage.includes('exercise') || lowerMessage.includes('workout') || lowerMessage.includes('gym')) {
+    return {
+      content: `Exercise is a great choice! But let's make sure we set you up for success. Many people set ambitious goals and then struggle to maintain them.
+
+What if we started with something achievable?`,
+      suggestedChallenge: {
+        title: 'Daily Movement Practice',
+        description: 'Get at least 20 minutes of intentional physical activity each day. This could be a walk, workout, yoga, or any movement that gets your heart rate up.',
+        type: 'fitness' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 7,
+        suggestedDeposit: 25,
+        reasoning: 'Starting with just 7 days and 20 minutes makes this achievable. Once you complete this, you can take on a bigger challenge!',
+        resolutionMethod: 'I\'ll share a screenshot of the activity from my fitness app each day.',
+        notificationSettings: { enabled: true, reminderTime: '07:00', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  if (lowerMessage.includes('meditat') || lowerMessage.includes('mindful') || lowerMessage.includes('calm')) {
+    return {
+      content: `Meditation is one of the most impactful habits you can build. Even just 5-10 minutes a day can transform your mental clarity and stress levels.`,
+      suggestedChallenge: {
+        title: 'Daily Mindfulness Practice',
+        description: 'Spend at least 10 minutes each day in meditation or mindfulness practice. Use an app like Headspace, Calm, or simply sit in quiet reflection.',
+        type: 'wellness' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 21,
+        suggestedDeposit: 75,
+        reasoning: '21 days is the classic habit-formation period. The $75 deposit shows you\'re serious about this investment in your mental wellbeing.',
+        resolutionMethod: 'I\'ll share my meditation app streak with my guarantor each day.',
+        notificationSettings: { enabled: true, reminderTime: '07:30', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  if (lowerMessage.includes('read') || lowerMessage.includes('book') || lowerMessage.includes('learn')) {
+    return {
+      content: `Reading and learning expand your mind in ways nothing else can. Let's make it a consistent part of your routine.`,
+      suggestedChallenge: {
+        title: 'Daily Reading Habit',
+        description: 'Read for at least 20 minutes every day. This can be books, quality long-form articles, or educational content related to your interests.',
+        type: 'learning' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 14,
+        suggestedDeposit: 50,
+        reasoning: 'Two weeks of daily reading will help you see how much you can accomplish. 20 minutes is achievable even on busy days.',
+        resolutionMethod: 'I\'ll send a photo of the page I reached each evening.',
+        notificationSettings: { enabled: true, reminderTime: '21:30', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  if (lowerMessage.includes('water') || lowerMessage.includes('hydrat')) {
+    return {
+      content: `Staying hydrated is such a foundational habit - it affects your energy, skin, focus, and overall health. Let's make it automatic!`,
+      suggestedChallenge: {
+        title: 'Hydration Hero',
+        description: 'Drink at least 8 glasses (64oz) of water every day. Track your intake using a water bottle with measurements or a simple tally.',
+        type: 'wellness' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 7,
+        suggestedDeposit: 25,
+        reasoning: 'A week is enough to feel the difference proper hydration makes. The $25 deposit keeps it light while still meaningful.',
+        resolutionMethod: 'I\'ll send a photo of my water tracker at the end of each day.',
+        frequencyDetails: { timesPerDay: 8 },
+        notificationSettings: { enabled: true, reminderTime: '10:00', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  if (lowerMessage.includes('sleep') || lowerMessage.includes('bed') || lowerMessage.includes('rest')) {
+    return {
+      content: `Better sleep changes everything - your mood, productivity, health, and relationships all improve. This is a high-impact challenge!`,
+      suggestedChallenge: {
+        title: 'Consistent Sleep Schedule',
+        description: 'Go to bed and wake up at the same time every day (within a 30-minute window). Aim for 7-8 hours of sleep.',
+        type: 'wellness' as ChallengeType,
+        suggestedFrequency: 'daily',
+        suggestedDuration: 14,
+        suggestedDeposit: 75,
+        reasoning: 'Two weeks allows your body to adjust to the new rhythm. The $75 deposit reflects the significant impact this will have on your life.',
+        resolutionMethod: 'I\'ll share my sleep tracker summary with my guarantor each morning.',
+        frequencyDetails: { specificTimes: ['22:30'] },
+        notificationSettings: { enabled: true, reminderTime: '22:00', pushEnabled: true, emailEnabled: true },
+        guarantorsCount: 1,
+        confidence: MOCK_CONFIDENCE,
+      },
+    };
+  }
+
+  // Generic response for unrecognized input
+  return {
+    content: `That's interesting! Tell me more about what specifically you'd like to work on. 
+
+Some questions to consider:
+- Is this something you want to do daily, or a few times a week?
+- What would success look like for you?
+- What's been stopping you from doing this consistently before?
+
+The more I understand your situation, the better I can help you design a challenge that actually works for you.`,
+  };
+}
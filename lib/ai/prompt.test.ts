@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { SuggestedChallenge } from '@/types/onboarding';
+import { formatSuggestionBlock, getVisibleReplyLength, parseAssistantReply } from './prompt';
+
+const SUGGESTION: SuggestedChallenge = {
+  title: 'Drink 8 glasses of water',
+  description: 'Eight glasses every day',
+  type: 'wellness',
+  suggestedFrequency: 'daily',
+  suggestedDuration: 14,
+  suggestedDeposit: 30,
+  reasoning: 'Easy to track and builds a routine',
+};
+
+describe('parseAssistantReply', () => {
+  it('returns a plain reply as is', () => {
+    expect(parseAssistantReply('  What would you like to change?\n')).toEqual({
+      content: 'What would you like to change?',
+    });
+  });
+
+  it('splits off the suggestion block', () => {
+    const reply = `Here is an idea for you.\n\n${formatSuggestionBlock(SUGGESTION)}\n`;
+    expect(parseAssistantReply(reply)).toEqual({
+      content: 'Here is an idea for you.',
+      suggestedChallenge: SUGGESTION,
+    });
+  });
+
+  it('drops a block that is not valid JSON', () => {
+    const reply = 'Here is an idea.\n```challenge\n{ "title": \n```';
+    expect(parseAssistantReply(reply)).toEqual({ content: 'Here is an idea.' });
+  });
+
+  it('drops a suggestion that fails validation', () => {
+    const reply = `Try this.\n${formatSuggestionBlock({ ...SUGGESTION, suggestedDeposit: 0 })}`;
+    expect(parseAssistantReply(reply)).toEqual({ content: 'Try this.' });
+  });
+});
+
+describe('getVisibleReplyLength', () => {
+  it('shows a reply without a suggestion block in full', () => {
+    expect(getVisibleReplyLength('Sounds good!')).toBe(12);
+  });
+
+  it('hides the suggestion block', () => {
+    const reply = 'Here is an idea.\n```challenge\n{"title": "Dr';
+    expect(getVisibleReplyLength(reply)).toBe('Here is an idea.\n'.length);
+  });
+
+  it('holds back a trailing fragment that may start the block', () => {
+    expect(getVisibleReplyLength('Here is an idea.\n``')).toBe('Here is an idea.\n'.length);
+    expect(getVisibleReplyLength('Here is an idea.\n```chall')).toBe('Here is an idea.\n'.length);
+  });
+
+  it('does not hold back text that cannot start the block', () => {
+    expect(getVisibleReplyLength('Use `code` here')).toBe('Use `code` here'.length);
+    expect(getVisibleReplyLength('```js')).toBe(5);
+  });
+});
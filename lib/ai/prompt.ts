@@ -0,0 +1,90 @@
+import { AI_DRAFT_FIELDS, validateSuggestedChallenge } from './extraction';
+import { CHALLENGE_TYPES, FREQUENCY_TYPES } from '@/lib/onboarding/validation';
+import type { SuggestedChallenge } from '@/types/onboarding';
+
+// System prompt for the AI assistant
+export const SYSTEM_PROMPT = `You are a supportive and motivating coach helping users discover meaningful personal challenges. Your role is to:
+
+1. Help users identify challenges that will genuinely improve their lives
+2. Encourage starting with simple, behavioral challenges (like "maintain a skincare routine" or "drink 8 glasses of water daily")
+3. Focus on consistency over intensity - small daily habits often create the biggest changes
+4. Ask clarifying questions to understand their motivation and lifestyle
+5. Suggest realistic timeframes and deposit amounts that feel meaningful but not overwhelming
+
+Key principles:
+- The best challenges are often mundane things we want to do consistently
+- Behavioral challenges (doing something regularly) work better than outcome-based goals
+- Start small - it's better to succeed at a 7-day challenge than fail at a 30-day one
+- The deposit should feel significant enough to motivate, but not cause financial stress
+- Encourage challenges that build positive habits rather than restrictive ones
+
+When suggesting a challenge, structure your response to include:
+- A clear, actionable title
+- A specific description of what success looks like
+- Recommended frequency and duration
+- A suggested deposit amount (usually $25-100 for beginners)
+- Why this particular challenge suits them
+
+Be warm, encouraging, and realistic. Celebrate their decision to invest in themselves.`;
+
+// Appended to the system prompt for language models so suggestions can be shown as cards
+export const SUGGESTION_FORMAT_PROMPT = `When (and only when) you suggest one specific challenge, end your reply with a fenced code block tagged "challenge" containing a single JSON object with these fields:
+- "title": string
+- "description": string
+- "type": one of ${CHALLENGE_TYPES.join(', ')}
+- "suggestedFrequency": one of ${FREQUENCY_TYPES.join(', ')}
+- "suggestedDuration": number of days
+- "suggestedDeposit": deposit in USD
+- "reasoning": string
+- "resolutionMethod": how the user's guarantors will verify each check-in (e.g. a photo sent every evening)
+- "frequencyDetails": object with any of "daysOfWeek" (0 = Sunday to 6 = Saturday), "timesPerWeek", "timesPerDay", "specificTimes" ("HH:MM"), "customSchedule" (text)
+- "notificationSettings": object with "enabled" (boolean) and any of "reminderTime" ("HH:MM"), "pushEnabled", "emailEnabled" (booleans)
+- "guarantorsCount": number of friends (1 to 10) who will verify the challenge
+- "confidence": object giving, for each of ${AI_DRAFT_FIELDS.join(', ')}, a number from 0 to 1 for how sure you are that the value matches what the user wants (low when you had to guess)
+
+Leave out optional fields you have no basis for.
+Do not refer to the code block in your reply; it is not shown to the user.`;
+
+const SUGGESTION_FENCE = '```challenge';
+const SUGGESTION_BLOCK = /```challenge\s*([\s\S]*?)```/;
+
+/**
+ * Render a suggestion the way language models are asked to (used by the offline mock)
+ */
+export function formatSuggestionBlock(suggestion: SuggestedChallenge): string {
+  return `${SUGGESTION_FENCE}\n${JSON.stringify(suggestion, null, 2)}\n\`\`\``;
+}
+
+/**
+ * How much of a partial reply can be shown while it streams: everything before
+ * the suggestion block, holding back a trailing fragment that may be its start
+ */
+export function getVisibleReplyLength(reply: string): number {
+  const fence = reply.indexOf(SUGGESTION_FENCE);
+  if (fence !== -1) return fence;
+
+  for (let keep = Math.min(SUGGESTION_FENCE.length - 1, reply.length); keep > 0; keep--) {
+    if (SUGGESTION_FENCE.startsWith(reply.slice(-keep))) return reply.length - keep;
+  }
+  return reply.length;
+}
+
+/**
+ * Split a model reply into the text shown to the user and the suggested challenge, if any
+ */
+export function parseAssistantReply(reply: string): {
+  content: string;
+  suggestedChallenge?: SuggestedChallenge;
+} {
+  const match = reply.match(SUGGESTION_BLOCK);
+  if (!match) return { content: reply.trim() };
+
+  const content = reply.replace(SUGGESTION_BLOCK, '').trim();
+
+  try {
+    const suggestion = validateSuggestedChallenge(JSON.parse(match[1]));
+    return { content, suggestedChallenge: suggestion ?? undefined };
+  } catch {
+    return { content };
+  }
+}
@@ -0,0 +1,39 @@
+// Browser-side helpers for calling authenticated API routes.
+// The browser uses cookie sessions: the tokens live in HttpOnly cookies, and
+// requests only echo the CSRF cookie in a header.
+
+const CSRF_COOKIE = "showup_csrf_token";
+
+// Left in client storage by bearer logins from before cookie sessions
+const LEGACY_TOKEN_KEYS = ["accessToken", "refreshToken"];
+
+// Headers for requests that start a session (login, registration, 2FA verification,
+// wallet sign-in): ask for a cookie session instead of tokens in the body
+export function getSessionStartHeaders(): Record<string, string> {
+  return { "Content-Type": "application/json", "X-Session-Mode": "cookie" };
+}
+
+// Call once a session has started; drops tokens stored by older bearer logins
+export function clearStoredTokens(): void {
+  LEGACY_TOKEN_KEYS.forEach((key) => localStorage.removeItem(key));
+}
+
+// CSRF header for the session cookies (empty when signed out)
+export function getAuthHeaders(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+
+  const csrfToken = getCookie(CSRF_COOKIE);
+  return csrfToken ? { "X-CSRF-Token": csrfToken } : {};
+}
+
+// Whether the browser holds a session. It may still have expired; API calls answer 401 then.
+export function isSignedIn(): boolean {
+  return Object.keys(getAuthHeaders()).length > 0;
+}
+
+function getCookie(name: string): string | null {
+  const match = document.cookie
+    .split("; ")
+    .find((cookie) => cookie.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+}
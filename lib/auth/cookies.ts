@@ -0,0 +1,145 @@
+import { timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextRequest, NextResponse } from 'next/server';
+import { generateSecureToken, verifyToken } from './index';
+import { getRequestMetadata, refreshSession } from './session';
+import { AuthResponse, JWTPayload } from '@/types/auth';
+
+// Cookie session mode: tokens live in HttpOnly cookies instead of client storage,
+// and mutating requests carry a double-submit CSRF token.
+// Clients opt in by sending `X-Session-Mode: cookie` when logging in; the web app always does.
+
+export const ACCESS_TOKEN_COOKIE = 'showup_access_token';
+export const REFRESH_TOKEN_COOKIE = 'showup_refresh_token';
+export const CSRF_COOKIE = 'showup_csrf_token';
+export const CSRF_HEADER = 'x-csrf-token';
+export const SESSION_MODE_HEADER = 'x-session-mode';
+
+// Match the JWT lifetimes
+const ACCESS_TOKEN_MAX_AGE_SECONDS = 15 * 60;
+const REFRESH_TOKEN_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const secure = process.env.NODE_ENV === 'production';
+
+// Whether the client asked for cookie session mode
+export function isCookieSessionRequest(request: NextRequest): boolean {
+  return request.headers.get(SESSION_MODE_HEADER) === 'cookie';
+}
+
+// Set the session cookies and the CSRF token (a fresh one unless given). The
+// refresh cookie is left untouched when no refresh token is given.
+// Returns the CSRF token.
+export async function setSessionCookies(
+  tokens: { accessToken: string; refreshToken?: string },
+  csrfToken: string = generateSecureToken()
+): Promise<string> {
+  const cookieStore = await cookies();
+
+  cookieStore.set(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ACCESS_TOKEN_MAX_AGE_SECONDS,
+  });
+
+  if (tokens.refreshToken) {
+    // Scoped to the API so every route can refresh silently
+    cookieStore.set(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+      httpOnly: true,
+      secure,
+      sameSite: 'strict',
+      path: '/api',
+      maxAge: REFRESH_TOKEN_MAX_AGE_SECONDS,
+    });
+  }
+
+  // Readable by the page so it can echo it in the CSRF header
+  cookieStore.set(CSRF_COOKIE, csrfToken, {
+    httpOnly: false,
+    secure,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: REFRESH_TOKEN_MAX_AGE_SECONDS,
+  });
+
+  return csrfToken;
+}
+
+export async function clearSessionCookies(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete({ name: ACCESS_TOKEN_COOKIE, path: '/' });
+  cookieStore.delete({ name: REFRESH_TOKEN_COOKIE, path: '/api' });
+  cookieStore.delete({ name: CSRF_COOKIE, path: '/' });
+}
+
+export function hasSessionCookies(request: NextRequest): boolean {
+  return (
+    request.cookies.has(ACCESS_TOKEN_COOKIE) ||
+    request.cookies.has(REFRESH_TOKEN_COOKIE)
+  );
+}
+
+// Double-submit check: the CSRF header must match the CSRF cookie.
+// Safe methods never need it.
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  if (SAFE_METHODS.includes(request.method)) return true;
+
+  const cookieToken = request.cookies.get(CSRF_COOKIE)?.value;
+  const headerToken = request.headers.get(CSRF_HEADER);
+  if (!cookieToken || !headerToken) return false;
+
+  const a = Buffer.from(cookieToken);
+  const b = Buffer.from(headerToken);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Authenticate from the session cookies. An expired access cookie is renewed
+// from the refresh cookie (silent refresh) and the new cookies are set on the response.
+export async function authenticateSessionCookies(
+  request: NextRequest
+): Promise<JWTPayload | null> {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (accessToken) {
+    const payload = await verifyToken(accessToken);
+    if (payload?.type === 'access') return payload;
+  }
+
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) return null;
+
+  const result = await refreshSession(refreshToken, getRequestMetadata(request), {
+    allowRotationGrace: true,
+  });
+
+  if (!result.ok) {
+    await clearSessionCookies();
+    return null;
+  }
+
+  // Keep the page's CSRF token valid across silent refreshes
+  await setSessionCookies(result, request.cookies.get(CSRF_COOKIE)?.value);
+  return verifyToken(result.accessToken);
+}
+
+// Respond to a successful login or refresh. In cookie mode the tokens are set as
+// cookies and left out of the body; bearer clients get them in the body as before.
+export async function respondWithSession<T extends AuthResponse>(
+  request: NextRequest,
+  body: T,
+  options: { status?: number; cookieMode?: boolean } = {}
+): Promise<NextResponse> {
+  const status = options.status ?? 200;
+  const cookieMode = options.cookieMode ?? isCookieSessionRequest(request);
+
+  if (!cookieMode) {
+    return NextResponse.json(body, { status });
+  }
+
+  const { accessToken, refreshToken, ...rest } = body;
+  const csrfToken = await setSessionCookies({ accessToken, refreshToken });
+
+  return NextResponse.json({ ...rest, csrfToken }, { status });
+}
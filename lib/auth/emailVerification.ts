@@ -0,0 +1,23 @@
+import { generateSecureToken, hashToken } from './index';
+import { createEmailVerificationToken } from '@/lib/db/auth';
+import { sendMail } from '@/lib/mail';
+import { verificationEmail } from '@/lib/mail/templates';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const VERIFICATION_TOKEN_TTL_HOURS = 24;
+
+// Issue a new verification token and email the verification link to the user
+export async function sendVerificationEmail(
+  userId: string,
+  email: string
+): Promise<void> {
+  const token = generateSecureToken();
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + VERIFICATION_TOKEN_TTL_HOURS);
+
+  await createEmailVerificationToken(userId, hashToken(token), expiresAt);
+
+  const verifyUrl = `${NEXT_PUBLIC_APP_URL}/api/auth/verify?token=${encodeURIComponent(token)}`;
+  await sendMail({ to: email, ...verificationEmail(verifyUrl) });
+}
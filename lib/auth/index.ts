@@ -1,10 +1,12 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import bcrypt from 'bcryptjs';
 import { SignJWT, jwtVerify } from 'jose';
-import { JWTPayload } from '@/types/auth';
+import { JWTPayload, MfaChallengePurpose, UserRole } from '@/types/auth';
 
 const SALT_ROUNDS = 12;
 const ACCESS_TOKEN_EXPIRY = '15m';
 const REFRESH_TOKEN_EXPIRY = '7d';
+const MFA_CHALLENGE_TOKEN_EXPIRY = '5m';
 
 // Get JWT secret from environment
 function getJWTSecret(): Uint8Array {
@@ -31,12 +33,15 @@ export async function verifyPassword(
 // Generate access token
 export async function generateAccessToken(
   userId: string,
-  email: string
+  email: string,
+  options: { role?: UserRole; sessionId?: string } = {}
 ): Promise<string> {
   const payload: JWTPayload = {
     userId,
     email,
     type: 'access',
+    role: options.role || 'user',
+    ...(options.sessionId && { sid: options.sessionId }),
   };
 
   return new SignJWT(payload)
@@ -46,24 +51,53 @@ export async function generateAccessToken(
     .sign(getJWTSecret());
 }
 
-// Generate refresh token
+// Generate refresh token belonging to a rotation family
 export async function generateRefreshToken(
   userId: string,
-  email: string
+  email: string,
+  family: string
 ): Promise<string> {
   const payload: JWTPayload = {
     userId,
     email,
     type: 'refresh',
+    family,
   };
 
   return new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
+    .setJti(randomUUID())
     .setIssuedAt()
     .setExpirationTime(REFRESH_TOKEN_EXPIRY)
     .sign(getJWTSecret());
 }
 
+// Generate a short-lived token proving the password step of a login succeeded.
+// It is only accepted by the second-step MFA routes, never as an access token.
+export async function generateMfaChallengeToken(
+  userId: string,
+  email: string,
+  purpose: MfaChallengePurpose
+): Promise<string> {
+  const payload: JWTPayload = {
+    userId,
+    email,
+    type: 'mfa',
+    mfa: purpose,
+  };
+
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(MFA_CHALLENGE_TOKEN_EXPIRY)
+    .sign(getJWTSecret());
+}
+
+// Start a new refresh token family (one per login / device)
+export function generateTokenFamily(): string {
+  return randomUUID();
+}
+
 // Verify JWT token
 export async function verifyToken(token: string): Promise<JWTPayload | null> {
   try {
@@ -112,3 +146,13 @@ export function getRefreshTokenExpiry(): Date {
   expiry.setDate(expiry.getDate() + 7); // 7 days
   return expiry;
 }
+
+// Generate an opaque, URL-safe token for email links
+export function generateSecureToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Hash an opaque token for storage (tokens are never stored in plaintext)
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
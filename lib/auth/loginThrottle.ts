@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { generateSecureToken, hashToken } from './index';
+import {
+  countFailedLoginsByIp,
+  createAccountUnlockToken,
+  logSecurityEvent,
+  registerFailedLogin,
+  unlockAccountWithToken,
+} from '@/lib/db/auth';
+import { sendMail } from '@/lib/mail';
+import { accountLockedEmail } from '@/lib/mail/templates';
+import { LoginThrottleState, RequestMetadata } from '@/types/auth';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Consecutive failed passwords before the account is locked
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 30;
+// Wait between failed attempts doubles each time: 1s, 2s, 4s, ... up to this cap
+const MAX_DELAY_SECONDS = 30;
+// Failed attempts allowed from one IP address across all emails
+const IP_WINDOW_MINUTES = 15;
+const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+const UNLOCK_TOKEN_TTL_HOURS = 24;
+
+export const ACCOUNT_LOCKED_ERROR =
+  'Account temporarily locked after too many failed login attempts. Check your email to unlock it.';
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: 'account_locked' | 'throttled';
+      retryAfterSeconds: number;
+    };
+
+// Required wait after the given number of consecutive failures
+export function getLoginDelaySeconds(failedAttempts: number): number {
+  if (failedAttempts <= 0) return 0;
+  return Math.min(2 ** (failedAttempts - 1), MAX_DELAY_SECONDS);
+}
+
+// Decide whether a login attempt may proceed, before the password is checked
+export async function checkLoginThrottle(
+  user: LoginThrottleState | null,
+  ipAddress: string | null
+): Promise<LoginThrottleResult> {
+  const now = Date.now();
+
+  if (user?.locked_until && new Date(user.locked_until).getTime() > now) {
+    return {
+      allowed: false,
+      reason: 'account_locked',
+      retryAfterSeconds: Math.ceil(
+        (new Date(user.locked_until).getTime() - now) / 1000
+      ),
+    };
+  }
+
+  if (user && user.failed_login_attempts > 0 && user.last_failed_login_at) {
+    const availableAt =
+      new Date(user.last_failed_login_at).getTime() +
+      getLoginDelaySeconds(user.failed_login_attempts) * 1000;
+
+    if (availableAt > now) {
+      return {
+        allowed: false,
+        reason: 'throttled',
+        retryAfterSeconds: Math.ceil((availableAt - now) / 1000),
+      };
+    }
+  }
+
+  if (ipAddress) {
+    const since = new Date(now - IP_WINDOW_MINUTES * 60 * 1000);
+    const ipFailures = await countFailedLoginsByIp(ipAddress, since);
+
+    if (ipFailures >= MAX_FAILED_ATTEMPTS_PER_IP) {
+      return {
+        allowed: false,
+        reason: 'throttled',
+        retryAfterSeconds: IP_WINDOW_MINUTES * 60,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+// Response for a login attempt rejected by checkLoginThrottle
+export function loginThrottledResponse(
+  result: Extract<LoginThrottleResult, { allowed: false }>
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: result.reason === 'account_locked'
+        ? ACCOUNT_LOCKED_ERROR
+        : 'Too many login attempts. Please wait before trying again.',
+      retryAfterSeconds: result.retryAfterSeconds,
+    },
+    {
+      status: result.reason === 'account_locked' ? 423 : 429,
+      headers: { 'Retry-After': result.retryAfterSeconds.toString() },
+    }
+  );
+}
+
+// Count a wrong password against the user. Once the limit is reached the
+// account is locked, the event is audited and an unlock link is emailed.
+// Returns true if this attempt locked the account.
+export async function handleFailedLogin(
+  user: { id: string; email: string },
+  metadata: RequestMetadata
+): Promise<boolean> {
+  const state = await registerFailedLogin(
+    user.id,
+    MAX_FAILED_ATTEMPTS,
+    LOCKOUT_MINUTES
+  );
+
+  if (!state.just_locked) return false;
+
+  await logSecurityEvent(
+    user.id,
+    'account_locked',
+    { failedAttempts: MAX_FAILED_ATTEMPTS, lockedUntil: state.locked_until },
+    metadata
+  );
+
+  const token = generateSecureToken();
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + UNLOCK_TOKEN_TTL_HOURS);
+
+  await createAccountUnlockToken(user.id, hashToken(token), expiresAt);
+
+  const unlockUrl = `${NEXT_PUBLIC_APP_URL}/api/auth/unlock?token=${encodeURIComponent(token)}`;
+
+  // The lockout stands even if the email cannot be delivered
+  try {
+    await sendMail({ to: user.email, ...accountLockedEmail(unlockUrl, LOCKOUT_MINUTES) });
+  } catch (mailError) {
+    console.error('Failed to send account locked email:', mailError);
+  }
+
+  return true;
+}
+
+// Lift a lockout from an emailed unlock link. Returns the user's ID, or null
+// if the token is unknown, used or expired.
+export async function unlockAccount(
+  token: string,
+  metadata: RequestMetadata
+): Promise<string | null> {
+  const userId = await unlockAccountWithToken(hashToken(token));
+  if (!userId) return null;
+
+  await logSecurityEvent(userId, 'account_unlocked', { via: 'email_link' }, metadata);
+
+  return userId;
+}
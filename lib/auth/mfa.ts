@@ -0,0 +1,177 @@
+import { randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { hashToken, verifyToken } from './index';
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  verifyTotpCode,
+} from './totp';
+import {
+  consumeRecoveryCode,
+  enableTotp,
+  getMfaState,
+  logSecurityEvent,
+  markTotpStepUsed,
+  setPendingTotpSecret,
+} from '@/lib/db/auth';
+import { getActiveDepositTotal } from '@/lib/db/challenges';
+import { sendMail } from '@/lib/mail';
+import { mfaEnabledEmail } from '@/lib/mail/templates';
+import {
+  JWTPayload,
+  MfaChallengePurpose,
+  RequestMetadata,
+  TotpEnrollment,
+} from '@/types/auth';
+
+// Accounts with more than this much USD at stake must use 2FA
+export const MFA_REQUIRED_DEPOSIT_USD = parseFloat(
+  process.env.MFA_REQUIRED_DEPOSIT_USD || '1000'
+);
+const RECOVERY_CODE_COUNT = 10;
+
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const state = await getMfaState(userId);
+  return !!state?.mfa_enabled_at;
+}
+
+// Whether the user's active deposits (plus an upcoming one) exceed the 2FA threshold
+export async function isMfaRequired(
+  user: { id: string; email: string },
+  additionalDepositUsd: number = 0
+): Promise<boolean> {
+  const total = await getActiveDepositTotal(user);
+  return total + additionalDepositUsd > MFA_REQUIRED_DEPOSIT_USD;
+}
+
+// Whether a new deposit has to wait until the user turns on 2FA
+export async function isMfaNeededForDeposit(
+  user: { id: string; email: string },
+  amountUsd: number
+): Promise<boolean> {
+  if (!(await isMfaRequired(user, amountUsd))) return false;
+  return !(await isMfaEnabled(user.id));
+}
+
+// Second login step needed after a correct password, if any
+export async function getLoginMfaPurpose(user: {
+  id: string;
+  email: string;
+}): Promise<MfaChallengePurpose | null> {
+  if (await isMfaEnabled(user.id)) return 'verify';
+  if (await isMfaRequired(user)) return 'enroll';
+  return null;
+}
+
+// Verify an MFA challenge token issued by /api/auth/login
+export async function verifyMfaChallengeToken(
+  token: string,
+  purpose: MfaChallengePurpose
+): Promise<JWTPayload | null> {
+  const payload = await verifyToken(token);
+  if (!payload || payload.type !== 'mfa' || payload.mfa !== purpose) {
+    return null;
+  }
+  return payload;
+}
+
+// Create a new pending TOTP secret and its QR code.
+// Returns null if 2FA is already enabled for the user.
+export async function startTotpEnrollment(user: {
+  id: string;
+  email: string;
+}): Promise<TotpEnrollment | null> {
+  const secret = generateTotpSecret();
+
+  const stored = await setPendingTotpSecret(user.id, encryptTotpSecret(secret));
+  if (!stored) return null;
+
+  const otpauthUri = buildOtpauthUri(secret, user.email);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+
+  return { secret, otpauthUri, qrCodeDataUrl };
+}
+
+// Confirm enrollment with a first code from the authenticator app.
+// Returns the plaintext recovery codes (shown once), or null if the code is wrong.
+export async function confirmTotpEnrollment(
+  user: { id: string; email: string },
+  code: string,
+  metadata: RequestMetadata
+): Promise<string[] | null> {
+  const state = await getMfaState(user.id);
+  if (!state?.mfa_totp_secret || state.mfa_enabled_at) return null;
+
+  const step = verifyTotpCode(decryptTotpSecret(state.mfa_totp_secret), code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  const enabled = await enableTotp(
+    user.id,
+    step,
+    recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode)))
+  );
+  if (!enabled) return null;
+
+  await logSecurityEvent(user.id, 'mfa_enabled', {}, metadata);
+
+  try {
+    await sendMail({ to: user.email, ...mfaEnabledEmail() });
+  } catch (mailError) {
+    console.error('Failed to send 2FA enabled email:', mailError);
+  }
+
+  return recoveryCodes;
+}
+
+// Check a TOTP code or a recovery code for a user with 2FA enabled.
+// Both are single-use.
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string },
+  metadata: RequestMetadata
+): Promise<boolean> {
+  const state = await getMfaState(userId);
+  if (!state?.mfa_totp_secret || !state.mfa_enabled_at) return false;
+
+  if (input.code) {
+    const lastUsedStep =
+      state.mfa_last_used_step !== null ? parseInt(state.mfa_last_used_step, 10) : null;
+    const step = verifyTotpCode(
+      decryptTotpSecret(state.mfa_totp_secret),
+      input.code,
+      lastUsedStep
+    );
+    if (step === null) return false;
+
+    // Guards against the same code being accepted by two concurrent requests
+    return markTotpStepUsed(userId, step);
+  }
+
+  if (input.recoveryCode) {
+    const consumed = await consumeRecoveryCode(
+      userId,
+      hashToken(normalizeRecoveryCode(input.recoveryCode))
+    );
+    if (consumed) {
+      await logSecurityEvent(userId, 'mfa_recovery_code_used', {}, metadata);
+    }
+    return consumed;
+  }
+
+  return false;
+}
+
+// Recovery codes look like "a1b2c-3d4e5"
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
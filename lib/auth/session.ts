@@ -0,0 +1,240 @@
+import { NextRequest } from 'next/server';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  generateTokenFamily,
+  getRefreshTokenExpiry,
+  hashToken,
+  verifyToken,
+} from './index';
+import {
+  createSession,
+  getActiveSessionByRefreshTokenHash,
+  getActiveUserById,
+  getSessionByFamily,
+  getSessionRotatedFrom,
+  revokeSessionFamily,
+  rotateSessionRefreshToken,
+  logSecurityEvent,
+  recordLoginAttempt,
+  resetFailedLogins,
+} from '@/lib/db/auth';
+import {
+  AuthResponse,
+  JWTPayload,
+  LoginThrottleState,
+  RequestMetadata,
+  Session,
+  User,
+  UserRole,
+} from '@/types/auth';
+
+interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// How long the token a session was just rotated away from stays usable when
+// rotation grace is allowed (parallel requests refreshing the same cookie)
+const ROTATION_GRACE_SECONDS = 30;
+
+export type RefreshResult =
+  | {
+      ok: true;
+      user: User;
+      accessToken: string;
+      // Absent when a token within the rotation grace window was presented:
+      // the newer refresh token was already handed out by the parallel request
+      refreshToken?: string;
+    }
+  | { ok: false; error: string };
+
+// Extract user agent and client IP from the request. The client can send its own
+// X-Forwarded-For, so only the entry appended by our proxy (the last one) is trusted.
+export function getRequestMetadata(request: NextRequest): RequestMetadata {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return {
+    userAgent: request.headers.get('user-agent') || null,
+    ipAddress: request.headers.get('x-real-ip') ||
+               forwardedFor?.split(',').pop()?.trim() ||
+               null,
+  };
+}
+
+// Issue an access/refresh token pair and start a new session (token family)
+export async function issueTokenPair(
+  user: { id: string; email: string; role: UserRole },
+  metadata: RequestMetadata
+): Promise<TokenPair> {
+  const family = generateTokenFamily();
+  const refreshToken = await generateRefreshToken(user.id, user.email, family);
+
+  const session = await createSession(
+    user.id,
+    family,
+    hashToken(refreshToken),
+    getRefreshTokenExpiry(),
+    metadata
+  );
+
+  const accessToken = await generateAccessToken(user.id, user.email, {
+    role: user.role,
+    sessionId: session.id,
+  });
+
+  return { accessToken, refreshToken };
+}
+
+// Finish a login once every factor has been checked: clear the failed attempt
+// counter, record the successful attempt and issue a token pair
+export async function completeLogin(
+  user: User & LoginThrottleState,
+  metadata: RequestMetadata
+): Promise<AuthResponse> {
+  if (user.failed_login_attempts > 0) {
+    await resetFailedLogins(user.id);
+  }
+  await recordLoginAttempt(user.email, user.id, true, null, metadata);
+
+  const { accessToken, refreshToken } = await issueTokenPair(user, metadata);
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      wallet_address: user.wallet_address,
+      role: user.role,
+      created_at: user.created_at,
+      updated_at: user.updated_at,
+      email_verified: user.email_verified,
+      is_active: user.is_active,
+    },
+    accessToken,
+    refreshToken,
+  };
+}
+
+// Rotate the refresh token of an active session.
+// Returns null if the presented token was already rotated by a concurrent request,
+// in which case the family has been revoked as a reuse.
+export async function rotateSession(
+  session: Session,
+  presentedToken: string,
+  user: { id: string; email: string; role: UserRole },
+  metadata: RequestMetadata
+): Promise<TokenPair | null> {
+  const accessToken = await generateAccessToken(user.id, user.email, {
+    role: user.role,
+    sessionId: session.id,
+  });
+  const refreshToken = await generateRefreshToken(user.id, user.email, session.family_id);
+
+  const rotated = await rotateSessionRefreshToken(
+    session.id,
+    hashToken(presentedToken),
+    hashToken(refreshToken),
+    getRefreshTokenExpiry(),
+    metadata
+  );
+
+  if (!rotated) {
+    await handleRefreshTokenReuse(session, undefined, metadata);
+    return null;
+  }
+
+  return { accessToken, refreshToken };
+}
+
+// Exchange a refresh token for a new token pair (rotating the session)
+export async function refreshSession(
+  refreshToken: string,
+  metadata: RequestMetadata,
+  options: { allowRotationGrace?: boolean } = {}
+): Promise<RefreshResult> {
+  const payload = await verifyToken(refreshToken);
+  if (!payload || payload.type !== 'refresh') {
+    return { ok: false, error: 'Invalid refresh token' };
+  }
+
+  const tokenHash = hashToken(refreshToken);
+
+  // Check if this is the current token of an active, unexpired session
+  const session = await getActiveSessionByRefreshTokenHash(tokenHash);
+
+  if (!session) {
+    if (options.allowRotationGrace) {
+      const rotatedSession = await getSessionRotatedFrom(tokenHash, ROTATION_GRACE_SECONDS);
+      const user = rotatedSession && (await getActiveUserById(rotatedSession.user_id));
+      if (rotatedSession && user) {
+        const accessToken = await generateAccessToken(user.id, user.email, {
+          role: user.role,
+          sessionId: rotatedSession.id,
+        });
+        return { ok: true, user, accessToken };
+      }
+    }
+
+    // A validly signed token that is no longer current was already rotated:
+    // treat it as stolen and revoke the whole family
+    if (await detectRefreshTokenReuse(payload, metadata)) {
+      return { ok: false, error: 'Refresh token reuse detected. Please log in again.' };
+    }
+
+    return { ok: false, error: 'Session expired or not found' };
+  }
+
+  const user = await getActiveUserById(session.user_id);
+  if (!user) {
+    return { ok: false, error: 'User not found or deactivated' };
+  }
+
+  // Rotate: issue a new token pair within the same family
+  const tokens = await rotateSession(session, refreshToken, user, metadata);
+  if (!tokens) {
+    return { ok: false, error: 'Refresh token reuse detected. Please log in again.' };
+  }
+
+  return { ok: true, user, ...tokens };
+}
+
+// Check whether a validly signed refresh token that no longer matches its
+// session is a replay of an already-rotated token. If so, the whole family is
+// revoked and the event is logged. Returns true when reuse was detected.
+export async function detectRefreshTokenReuse(
+  payload: JWTPayload,
+  metadata: RequestMetadata
+): Promise<boolean> {
+  if (!payload.family) return false;
+
+  const session = await getSessionByFamily(payload.family);
+  if (!session || session.revoked_at) return false;
+
+  await handleRefreshTokenReuse(session, payload.jti, metadata);
+  return true;
+}
+
+async function handleRefreshTokenReuse(
+  session: Session,
+  jti: string | undefined,
+  metadata: RequestMetadata
+): Promise<void> {
+  await revokeSessionFamily(session.family_id, 'token_reuse');
+
+  console.warn('Refresh token reuse detected, family revoked:', {
+    userId: session.user_id,
+    familyId: session.family_id,
+    jti,
+  });
+
+  await logSecurityEvent(
+    session.user_id,
+    'refresh_token_reuse',
+    {
+      sessionId: session.id,
+      familyId: session.family_id,
+      jti: jti || null,
+    },
+    metadata
+  );
+}
@@ -0,0 +1,68 @@
+import { getAddress } from 'viem';
+import { generateSiweNonce, parseSiweMessage } from 'viem/siwe';
+import { createSiweNonce, consumeSiweNonce } from '@/lib/db/auth';
+import { getPublicClient } from '@/lib/web3/server/escrowService';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const NONCE_TTL_MINUTES = 10;
+
+export type SiweVerificationResult =
+  | { success: true; address: `0x${string}`; chainId: number }
+  | { success: false; error: string };
+
+// Domain that SIWE messages must be bound to (host of the app URL)
+function getExpectedDomain(): string {
+  return new URL(NEXT_PUBLIC_APP_URL).host;
+}
+
+// Issue a single-use nonce for a SIWE message
+export async function issueSiweNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date();
+  expiresAt.setMinutes(expiresAt.getMinutes() + NONCE_TTL_MINUTES);
+
+  await createSiweNonce(nonce, expiresAt);
+
+  return { nonce, expiresAt };
+}
+
+// Verify a signed EIP-4361 message: domain binding, validity window, signature
+// (including smart contract wallets via ERC-1271/6492) and single-use nonce
+export async function verifySiweSignature(
+  message: string,
+  signature: `0x${string}`
+): Promise<SiweVerificationResult> {
+  const parsed = parseSiweMessage(message);
+
+  if (!parsed.address || !parsed.nonce || !parsed.chainId) {
+    return { success: false, error: 'Malformed SIWE message' };
+  }
+
+  const publicClient = getPublicClient(parsed.chainId);
+  if (!publicClient) {
+    return { success: false, error: `Unsupported chain ID: ${parsed.chainId}` };
+  }
+
+  const isValid = await publicClient.verifySiweMessage({
+    message,
+    signature,
+    domain: getExpectedDomain(),
+  });
+
+  if (!isValid) {
+    return { success: false, error: 'Invalid SIWE signature or message' };
+  }
+
+  // Consume the nonce last so replays of a valid message are rejected
+  const nonceConsumed = await consumeSiweNonce(parsed.nonce);
+  if (!nonceConsumed) {
+    return { success: false, error: 'Nonce is invalid, expired or already used' };
+  }
+
+  return {
+    success: true,
+    address: getAddress(parsed.address),
+    chainId: parsed.chainId,
+  };
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+} from './totp';
+
+// RFC 6238 test vectors (SHA-1 seed "12345678901234567890"), truncated to 6 digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const STEP = 37037036; // 1111111109s
+const CODE_AT_STEP = '081804';
+const CODE_AT_NEXT_STEP = '050471'; // 1111111111s
+
+function atStep(step: number) {
+  vi.setSystemTime(step * 30 * 1000);
+}
+
+describe('generateTotpSecret', () => {
+  it('generates a 160-bit base32 secret', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe('getTotpStep', () => {
+  it('counts 30 second steps', () => {
+    expect(getTotpStep(59 * 1000)).toBe(1);
+    expect(getTotpStep(1111111109 * 1000)).toBe(STEP);
+  });
+});
+
+describe('verifyTotpCode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the code for the current step', () => {
+    atStep(STEP);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_STEP)).toBe(STEP);
+    expect(verifyTotpCode(RFC_SECRET, '081 804')).toBe(STEP);
+  });
+
+  it('accepts one step of clock drift in either direction', () => {
+    atStep(STEP + 1);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_STEP)).toBe(STEP);
+
+    atStep(STEP);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_NEXT_STEP)).toBe(STEP + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    atStep(STEP + 2);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_STEP)).toBeNull();
+
+    atStep(STEP - 1);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_NEXT_STEP)).toBeNull();
+  });
+
+  it('rejects a code for a step that was already used', () => {
+    atStep(STEP + 1);
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_STEP, STEP)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, CODE_AT_NEXT_STEP, STEP)).toBe(STEP + 1);
+  });
+
+  it('rejects malformed codes', () => {
+    atStep(STEP);
+    expect(verifyTotpCode(RFC_SECRET, '81804')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, '0818040')).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('encodes the issuer, account and parameters', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'me@example.com');
+    expect(uri).toBe(
+      `otpauth://totp/Showup%3Ame%40example.com?secret=${RFC_SECRET}&issuer=Showup&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
+
+describe('encryptTotpSecret', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('round-trips a secret', () => {
+    vi.stubEnv('MFA_ENCRYPTION_KEY', 'test-key');
+    const encrypted = encryptTotpSecret(RFC_SECRET);
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(decryptTotpSecret(encrypted)).toBe(RFC_SECRET);
+  });
+
+  it('fails to decrypt with a different key', () => {
+    vi.stubEnv('MFA_ENCRYPTION_KEY', 'test-key');
+    const encrypted = encryptTotpSecret(RFC_SECRET);
+    vi.stubEnv('MFA_ENCRYPTION_KEY', 'other-key');
+    expect(() => decryptTotpSecret(encrypted)).toThrow();
+  });
+});
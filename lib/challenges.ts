@@ -0,0 +1,15 @@
+import { toChallenge, type ChallengeRow } from '@/lib/db/challenges';
+import { getChallengeStateOnChain } from '@/lib/web3/server/escrowService';
+import type { Challenge } from '@/types/challenge';
+
+/**
+ * The API model of a challenge, with its live escrow contract state when it is on-chain
+ */
+export async function withOnChainState(row: ChallengeRow): Promise<Challenge> {
+  return {
+    ...toChallenge(row),
+    onChain: row.on_chain_challenge_id
+      ? await getChallengeStateOnChain(row.on_chain_challenge_id)
+      : null,
+  };
+}
@@ -0,0 +1,143 @@
+import { query, transaction } from './index';
+import { UNRESOLVED_CHALLENGE_STATUSES, USER_CHALLENGE_CONDITION } from './challenges';
+import { getTermsAcceptanceHistory } from './onboarding';
+import { AccountDeletionResult, AccountExport, BlockingChallenge } from '@/types/account';
+import { AIConversation, OnboardingSession } from '@/types/onboarding';
+
+// Personal Data Export
+
+export async function getAccountExport(userId: string): Promise<AccountExport | null> {
+  const userResult = await query(
+    `SELECT id, email, username, wallet_address, wallet_verified_at, role, email_verified,
+            is_active, terms_accepted_at, onboarding_completed_at, notification_preferences,
+            mfa_enabled_at, created_at, updated_at
+     FROM users WHERE id = $1 AND deleted_at IS NULL`,
+    [userId]
+  );
+
+  const user = userResult.rows[0];
+  if (!user) return null;
+
+  const [challenges, onboardingSessions, onboardingAnalytics, aiConversations, termsAcceptances] =
+    await Promise.all([
+      query(
+        `SELECT * FROM challenges
+         WHERE ${USER_CHALLENGE_CONDITION}
+         ORDER BY created_at ASC`,
+        [userId, user.email]
+      ),
+      query<OnboardingSession>(
+        `SELECT * FROM onboarding_sessions WHERE user_id = $1 ORDER BY created_at ASC`,
+        [userId]
+      ),
+      query(
+        `SELECT * FROM onboarding_analytics WHERE user_id = $1 ORDER BY created_at ASC`,
+        [userId]
+      ),
+      query<AIConversation>(
+        `SELECT * FROM ai_conversations WHERE user_id = $1 ORDER BY created_at ASC`,
+        [userId]
+      ),
+      getTermsAcceptanceHistory(userId),
+    ]);
+
+  // Without the token hash: the links themselves are not part of the user's data
+  const challengeInvites = await query(
+    `SELECT id, onboarding_session_id, challenge_id, challenge_draft, invitee_email,
+            expires_at, created_at
+     FROM challenge_invites WHERE inviter_id = $1 ORDER BY created_at ASC`,
+    [userId]
+  );
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user,
+    challenges: challenges.rows,
+    onboardingSessions: onboardingSessions.rows,
+    onboardingAnalytics: onboardingAnalytics.rows,
+    aiConversations: aiConversations.rows,
+    termsAcceptances,
+    challengeInvites: challengeInvites.rows,
+  };
+}
+
+// Account Deletion
+
+// Erase the user's personal data. The user row and their challenges are kept,
+// anonymized, so escrowed and settled funds stay traceable; everything else is deleted
+// except terms acceptances, which are the legal record of the deposit agreements.
+// Nothing is changed while a challenge is still unresolved.
+export async function anonymizeAccount(
+  userId: string
+): Promise<AccountDeletionResult | null> {
+  return transaction(async (client) => {
+    const userResult = await client.query<{ email: string }>(
+      `SELECT email FROM users WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [userId]
+    );
+
+    if (userResult.rows.length === 0) return null;
+
+    const { email } = userResult.rows[0];
+
+    const blockingResult = await client.query<BlockingChallenge>(
+      `SELECT challenge_id, title, status FROM challenges
+       WHERE ${USER_CHALLENGE_CONDITION} AND status = ANY($3)
+       ORDER BY created_at ASC`,
+      [userId, email, UNRESOLVED_CHALLENGE_STATUSES]
+    );
+
+    if (blockingResult.rows.length > 0) {
+      return { deleted: false, blockingChallenges: blockingResult.rows };
+    }
+
+    const anonymizedEmail = `deleted-${userId}@deleted.invalid`;
+
+    const challengeResult = await client.query(
+      `UPDATE challenges
+       SET user_id = $1, user_email = $3, guarantors = '[]', linked_friend_email = NULL,
+           visibility = 'private'
+       WHERE ${USER_CHALLENGE_CONDITION}`,
+      [userId, email, anonymizedEmail]
+    );
+
+    // Analytics rows recorded without a user_id go with their session (ON DELETE CASCADE)
+    await client.query(`DELETE FROM onboarding_analytics WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM ai_conversations WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM challenge_invites WHERE inviter_id = $1`, [userId]);
+    await client.query(`DELETE FROM onboarding_sessions WHERE user_id = $1`, [userId]);
+
+    await client.query(`DELETE FROM sessions WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM email_verification_tokens WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM password_reset_tokens WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM account_unlock_tokens WHERE user_id = $1`, [userId]);
+    await client.query(`DELETE FROM mfa_recovery_codes WHERE user_id = $1`, [userId]);
+
+    // Audit trails are kept, without the addresses and devices they were recorded from
+    await client.query(
+      `UPDATE login_attempts
+       SET email = $3, ip_address = NULL, user_agent = NULL
+       WHERE user_id = $1 OR LOWER(email) = LOWER($2)`,
+      [userId, email, anonymizedEmail]
+    );
+    await client.query(
+      `UPDATE security_events SET ip_address = NULL, user_agent = NULL WHERE user_id = $1`,
+      [userId]
+    );
+
+    // An empty hash never matches a password, and the account can no longer log in
+    await client.query(
+      `UPDATE users
+       SET email = $2, password_hash = '', username = NULL,
+           wallet_address = NULL, wallet_verified_at = NULL,
+           notification_preferences = '{}',
+           mfa_totp_secret = NULL, mfa_enabled_at = NULL, mfa_last_used_step = NULL,
+           failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL,
+           is_active = false, deleted_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId, anonymizedEmail]
+    );
+
+    return { deleted: true, anonymizedChallenges: challengeResult.rowCount ?? 0 };
+  });
+}
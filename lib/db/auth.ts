@@ -0,0 +1,605 @@
+import { query, transaction } from './index';
+import {
+  AccountUnlockToken,
+  EmailVerificationToken,
+  LoginFailureReason,
+  LoginThrottleState,
+  MfaState,
+  PasswordResetToken,
+  User,
+  Session,
+  ActiveSession,
+  SecurityEventType,
+  RequestMetadata,
+} from '@/types/auth';
+
+// Users
+
+export async function getActiveUserById(userId: string): Promise<User | null> {
+  const result = await query<User>(
+    `SELECT id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active
+     FROM users WHERE id = $1 AND is_active = true`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+// Sessions (refresh token families)
+
+export async function createSession(
+  userId: string,
+  familyId: string,
+  refreshTokenHash: string,
+  expiresAt: Date,
+  metadata: RequestMetadata
+): Promise<Session> {
+  const result = await query<Session>(
+    `INSERT INTO sessions (user_id, family_id, refresh_token_hash, expires_at, user_agent, ip_address)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [userId, familyId, refreshTokenHash, expiresAt, metadata.userAgent, metadata.ipAddress]
+  );
+  return result.rows[0];
+}
+
+export async function getActiveSessionByRefreshTokenHash(
+  refreshTokenHash: string
+): Promise<Session | null> {
+  const result = await query<Session>(
+    `SELECT * FROM sessions
+     WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [refreshTokenHash]
+  );
+  return result.rows[0] || null;
+}
+
+// Active session that was rotated away from the given token within the last graceSeconds
+export async function getSessionRotatedFrom(
+  previousTokenHash: string,
+  graceSeconds: number
+): Promise<Session | null> {
+  const result = await query<Session>(
+    `SELECT * FROM sessions
+     WHERE previous_refresh_token_hash = $1
+       AND last_rotated_at > NOW() - make_interval(secs => $2)
+       AND revoked_at IS NULL AND expires_at > NOW()`,
+    [previousTokenHash, graceSeconds]
+  );
+  return result.rows[0] || null;
+}
+
+export async function getSessionByFamily(
+  familyId: string
+): Promise<Session | null> {
+  const result = await query<Session>(
+    `SELECT * FROM sessions WHERE family_id = $1`,
+    [familyId]
+  );
+  return result.rows[0] || null;
+}
+
+// Swap the current refresh token of a family for a new one.
+// Returns false if the token was rotated concurrently (the old hash no longer matches).
+export async function rotateSessionRefreshToken(
+  sessionId: string,
+  previousTokenHash: string,
+  newTokenHash: string,
+  expiresAt: Date,
+  metadata: RequestMetadata
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE sessions
+     SET refresh_token_hash = $1, previous_refresh_token_hash = $6,
+         expires_at = $2, user_agent = $3, ip_address = $4,
+         last_rotated_at = CURRENT_TIMESTAMP
+     WHERE id = $5 AND refresh_token_hash = $6 AND revoked_at IS NULL`,
+    [newTokenHash, expiresAt, metadata.userAgent, metadata.ipAddress, sessionId, previousTokenHash]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function revokeSessionFamily(
+  familyId: string,
+  reason: string
+): Promise<void> {
+  await query(
+    `UPDATE sessions
+     SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+     WHERE family_id = $1 AND revoked_at IS NULL`,
+    [familyId, reason]
+  );
+}
+
+export async function deleteSessionByRefreshTokenHash(
+  refreshTokenHash: string
+): Promise<void> {
+  await query(
+    'DELETE FROM sessions WHERE refresh_token_hash = $1',
+    [refreshTokenHash]
+  );
+}
+
+// List a user's active sessions (devices), flagging the one making the request
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<ActiveSession[]> {
+  const result = await query<Omit<ActiveSession, 'current'>>(
+    `SELECT id, user_agent, ip_address, created_at,
+            COALESCE(last_rotated_at, created_at) AS last_active_at, expires_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY COALESCE(last_rotated_at, created_at) DESC`,
+    [userId]
+  );
+  return result.rows.map((row) => ({
+    ...row,
+    current: row.id === currentSessionId,
+  }));
+}
+
+export async function deleteUserSession(
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM sessions WHERE id = $1 AND user_id = $2',
+    [sessionId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Delete every session of a user, optionally keeping one (e.g. the caller's)
+export async function deleteUserSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = exceptSessionId
+    ? await query(
+        'DELETE FROM sessions WHERE user_id = $1 AND id <> $2',
+        [userId, exceptSessionId]
+      )
+    : await query('DELETE FROM sessions WHERE user_id = $1', [userId]);
+  return result.rowCount ?? 0;
+}
+
+// Security Audit Log
+
+export async function logSecurityEvent(
+  userId: string | null,
+  eventType: SecurityEventType,
+  eventData: Record<string, unknown>,
+  metadata: RequestMetadata
+): Promise<void> {
+  await query(
+    `INSERT INTO security_events (user_id, event_type, event_data, ip_address, user_agent)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [userId, eventType, JSON.stringify(eventData), metadata.ipAddress, metadata.userAgent]
+  );
+}
+
+// Email Verification
+
+export async function createEmailVerificationToken(
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<EmailVerificationToken> {
+  const result = await query<EmailVerificationToken>(
+    `INSERT INTO email_verification_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [userId, tokenHash, expiresAt]
+  );
+  return result.rows[0];
+}
+
+export async function getLatestEmailVerificationToken(
+  userId: string
+): Promise<EmailVerificationToken | null> {
+  const result = await query<EmailVerificationToken>(
+    `SELECT * FROM email_verification_tokens
+     WHERE user_id = $1
+     ORDER BY created_at DESC LIMIT 1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+// Consume a verification token and mark the user's email as verified.
+// Returns the verified user's ID, or null if the token is unknown, used or expired.
+export async function consumeEmailVerificationToken(
+  tokenHash: string
+): Promise<string | null> {
+  return transaction(async (client) => {
+    const tokenResult = await client.query<{ user_id: string }>(
+      `UPDATE email_verification_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [tokenHash]
+    );
+
+    if (tokenResult.rows.length === 0) return null;
+
+    const userId = tokenResult.rows[0].user_id;
+
+    await client.query(
+      `UPDATE users SET email_verified = true WHERE id = $1`,
+      [userId]
+    );
+
+    // Invalidate any other outstanding tokens for this user
+    await client.query(
+      `UPDATE email_verification_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [userId]
+    );
+
+    return userId;
+  });
+}
+
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const result = await query<{ email_verified: boolean }>(
+    `SELECT email_verified FROM users WHERE id = $1`,
+    [userId]
+  );
+  return result.rows[0]?.email_verified === true;
+}
+
+// Password Reset
+
+export async function createPasswordResetToken(
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date,
+  requestedIp: string | null
+): Promise<PasswordResetToken> {
+  const result = await query<PasswordResetToken>(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [userId, tokenHash, expiresAt, requestedIp]
+  );
+  return result.rows[0];
+}
+
+// Consume a reset token, set the new password and revoke every session of the user.
+// Returns the user's ID, or null if the token is unknown, used or expired.
+export async function resetPasswordWithToken(
+  tokenHash: string,
+  passwordHash: string
+): Promise<string | null> {
+  return transaction(async (client) => {
+    const tokenResult = await client.query<{ user_id: string }>(
+      `UPDATE password_reset_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [tokenHash]
+    );
+
+    if (tokenResult.rows.length === 0) return null;
+
+    const userId = tokenResult.rows[0].user_id;
+
+    await client.query(
+      `UPDATE users SET password_hash = $1 WHERE id = $2`,
+      [passwordHash, userId]
+    );
+
+    // Invalidate any other outstanding reset links
+    await client.query(
+      `UPDATE password_reset_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [userId]
+    );
+
+    // Log out every device
+    await client.query(`DELETE FROM sessions WHERE user_id = $1`, [userId]);
+
+    // A successful reset also lifts any login lockout
+    await client.query(
+      `UPDATE users
+       SET failed_login_attempts = 0, locked_until = NULL
+       WHERE id = $1`,
+      [userId]
+    );
+
+    return userId;
+  });
+}
+
+// Sign-In with Ethereum
+
+export async function createSiweNonce(
+  nonce: string,
+  expiresAt: Date
+): Promise<void> {
+  await query(
+    `INSERT INTO siwe_nonces (nonce, expires_at) VALUES ($1, $2)`,
+    [nonce, expiresAt]
+  );
+}
+
+// Mark a nonce as used. Returns false if it is unknown, already used or expired.
+export async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE siwe_nonces
+     SET used_at = CURRENT_TIMESTAMP
+     WHERE nonce = $1 AND used_at IS NULL AND expires_at > NOW()`,
+    [nonce]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function getUserByWalletAddress(
+  walletAddress: string
+): Promise<(User & LoginThrottleState) | null> {
+  const result = await query<User & LoginThrottleState>(
+    `SELECT id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active,
+            failed_login_attempts, last_failed_login_at, locked_until
+     FROM users
+     WHERE LOWER(wallet_address) = LOWER($1) AND wallet_verified_at IS NOT NULL`,
+    [walletAddress]
+  );
+  return result.rows[0] || null;
+}
+
+// Link a wallet whose ownership the user just proved. An unverified (legacy) link of the
+// same wallet on another account is released, since that account never proved ownership.
+export async function linkWalletAddress(
+  userId: string,
+  walletAddress: string
+): Promise<User | null> {
+  return transaction(async (client) => {
+    await client.query(
+      `UPDATE users SET wallet_address = NULL
+       WHERE LOWER(wallet_address) = LOWER($1) AND id <> $2 AND wallet_verified_at IS NULL`,
+      [walletAddress, userId]
+    );
+
+    const result = await client.query<User>(
+      `UPDATE users
+       SET wallet_address = $1, wallet_verified_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND is_active = true
+       RETURNING id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active`,
+      [walletAddress, userId]
+    );
+    return result.rows[0] || null;
+  });
+}
+
+// Login Throttling
+
+export async function getUserForLogin(
+  userId: string
+): Promise<(User & LoginThrottleState) | null> {
+  const result = await query<User & LoginThrottleState>(
+    `SELECT id, email, username, wallet_address, role, created_at, updated_at, email_verified, is_active,
+            failed_login_attempts, last_failed_login_at, locked_until
+     FROM users WHERE id = $1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+export async function recordLoginAttempt(
+  email: string,
+  userId: string | null,
+  success: boolean,
+  failureReason: LoginFailureReason | null,
+  metadata: RequestMetadata
+): Promise<void> {
+  await query(
+    `INSERT INTO login_attempts (email, user_id, success, failure_reason, ip_address, user_agent)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [email, userId, success, failureReason, metadata.ipAddress, metadata.userAgent]
+  );
+}
+
+export async function countFailedLoginsByIp(
+  ipAddress: string,
+  since: Date
+): Promise<number> {
+  const result = await query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM login_attempts
+     WHERE ip_address = $1 AND success = false AND created_at > $2`,
+    [ipAddress, since]
+  );
+  return parseInt(result.rows[0].count, 10);
+}
+
+// Increment the user's failed attempt counter. When it reaches maxAttempts the
+// account is locked for lockoutMinutes and the counter starts over.
+export async function registerFailedLogin(
+  userId: string,
+  maxAttempts: number,
+  lockoutMinutes: number
+): Promise<LoginThrottleState & { just_locked: boolean }> {
+  const result = await query<LoginThrottleState & { just_locked: boolean }>(
+    `UPDATE users
+     SET failed_login_attempts = CASE
+           WHEN failed_login_attempts + 1 >= $2 THEN 0
+           ELSE failed_login_attempts + 1
+         END,
+         last_failed_login_at = CURRENT_TIMESTAMP,
+         locked_until = CASE
+           WHEN failed_login_attempts + 1 >= $2
+             THEN CURRENT_TIMESTAMP + make_interval(mins => $3)
+           ELSE locked_until
+         END
+     WHERE id = $1
+     RETURNING failed_login_attempts, last_failed_login_at, locked_until,
+               failed_login_attempts = 0 AS just_locked`,
+    [userId, maxAttempts, lockoutMinutes]
+  );
+  return result.rows[0];
+}
+
+export async function resetFailedLogins(userId: string): Promise<void> {
+  await query(
+    `UPDATE users
+     SET failed_login_attempts = 0, last_failed_login_at = NULL
+     WHERE id = $1`,
+    [userId]
+  );
+}
+
+export async function createAccountUnlockToken(
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date
+): Promise<AccountUnlockToken> {
+  const result = await query<AccountUnlockToken>(
+    `INSERT INTO account_unlock_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [userId, tokenHash, expiresAt]
+  );
+  return result.rows[0];
+}
+
+// Consume an unlock token and lift the lockout.
+// Returns the user's ID, or null if the token is unknown, used or expired.
+export async function unlockAccountWithToken(
+  tokenHash: string
+): Promise<string | null> {
+  return transaction(async (client) => {
+    const tokenResult = await client.query<{ user_id: string }>(
+      `UPDATE account_unlock_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id`,
+      [tokenHash]
+    );
+
+    if (tokenResult.rows.length === 0) return null;
+
+    const userId = tokenResult.rows[0].user_id;
+
+    await client.query(
+      `UPDATE users
+       SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL
+       WHERE id = $1`,
+      [userId]
+    );
+
+    // Invalidate any other outstanding unlock links
+    await client.query(
+      `UPDATE account_unlock_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND used_at IS NULL`,
+      [userId]
+    );
+
+    return userId;
+  });
+}
+
+// Two-Factor Authentication
+
+export async function getMfaState(userId: string): Promise<MfaState | null> {
+  const result = await query<MfaState>(
+    `SELECT mfa_totp_secret, mfa_enabled_at, mfa_last_used_step
+     FROM users WHERE id = $1`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
+// Store a not-yet-confirmed TOTP secret. Returns false if 2FA is already enabled.
+export async function setPendingTotpSecret(
+  userId: string,
+  encryptedSecret: string
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE users
+     SET mfa_totp_secret = $1, mfa_last_used_step = NULL
+     WHERE id = $2 AND mfa_enabled_at IS NULL`,
+    [encryptedSecret, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Enable 2FA after the first code was confirmed and replace the recovery codes
+export async function enableTotp(
+  userId: string,
+  usedStep: number,
+  recoveryCodeHashes: string[]
+): Promise<boolean> {
+  return transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE users
+       SET mfa_enabled_at = CURRENT_TIMESTAMP, mfa_last_used_step = $1
+       WHERE id = $2 AND mfa_enabled_at IS NULL AND mfa_totp_secret IS NOT NULL`,
+      [usedStep, userId]
+    );
+
+    if ((result.rowCount ?? 0) === 0) return false;
+
+    await client.query(`DELETE FROM mfa_recovery_codes WHERE user_id = $1`, [userId]);
+
+    for (const codeHash of recoveryCodeHashes) {
+      await client.query(
+        `INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)`,
+        [userId, codeHash]
+      );
+    }
+
+    return true;
+  });
+}
+
+export async function disableTotp(userId: string): Promise<void> {
+  await transaction(async (client) => {
+    await client.query(
+      `UPDATE users
+       SET mfa_totp_secret = NULL, mfa_enabled_at = NULL, mfa_last_used_step = NULL
+       WHERE id = $1`,
+      [userId]
+    );
+    await client.query(`DELETE FROM mfa_recovery_codes WHERE user_id = $1`, [userId]);
+  });
+}
+
+// Record the time step of an accepted code. Returns false if that step (or a
+// later one) was already used, i.e. the code is being replayed.
+export async function markTotpStepUsed(
+  userId: string,
+  step: number
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE users
+     SET mfa_last_used_step = $1
+     WHERE id = $2 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $1)`,
+    [step, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Mark a recovery code as used. Returns false if it is unknown or already used.
+export async function consumeRecoveryCode(
+  userId: string,
+  codeHash: string
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE mfa_recovery_codes
+     SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, codeHash]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function countUnusedRecoveryCodes(userId: string): Promise<number> {
+  const result = await query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM mfa_recovery_codes
+     WHERE user_id = $1 AND used_at IS NULL`,
+    [userId]
+  );
+  return parseInt(result.rows[0].count, 10);
+}
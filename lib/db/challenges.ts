@@ -1,4 +1,11 @@
-import { query } from './index';
+import { randomBytes } from 'crypto';
+import { query, transaction } from './index';
+import {
+  Challenge,
+  ChallengeFilters,
+  ChallengeStatus,
+  ChallengeVisibility,
+} from '@/types/challenge';
 
 export interface ChallengeData {
   challengeId: string;
@@ -6,11 +13,19 @@ export interface ChallengeData {
   durationDays: number;
   amountUsd: number;
   userEmail: string;
+  userId?: string;
   guarantors?: string[];
   stripeSessionId?: string;
   stripePaymentIntentId?: string;
   metadataUri?: string;
   description?: string;
+  // Invite the challenge was joined from; links it to the inviter's
+  inviteId?: string;
+  // Template or AI conversation the draft came from
+  templateId?: string;
+  aiConversationId?: string;
+  // Onboarding session it was drafted in: completed, and invites sent from there point at it
+  onboardingSessionId?: string;
 }
 
 export interface ChallengeUpdateData {
@@ -23,6 +38,70 @@ export interface ChallengeUpdateData {
   errorMessage?: string;
 }
 
+export interface ChallengeRow {
+  id: string;
+  challenge_id: string;
+  title: string;
+  description: string | null;
+  duration_days: number;
+  amount_usd: string;
+  user_email: string;
+  user_id: string | null;
+  guarantors: string[];
+  status: ChallengeStatus;
+  stripe_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  on_chain_challenge_id: string | null;
+  transaction_hash: string | null;
+  block_number: string | null;
+  metadata_uri: string | null;
+  challenge_type: Challenge['type'];
+  resolution_method: string | null;
+  frequency: Challenge['frequency'];
+  frequency_details: Challenge['frequencyDetails'] | null;
+  notification_settings: Challenge['notificationSettings'];
+  deposit_recipient: Challenge['depositRecipient'];
+  linked_friend_email: string | null;
+  ai_conversation_id: string | null;
+  ai_suggested: boolean | null;
+  template_id: string | null;
+  invite_id: string | null;
+  slug: string | null;
+  visibility: ChallengeVisibility;
+  show_deposit: boolean;
+  created_at: Date;
+  updated_at: Date;
+  started_at: Date | null;
+  ends_at: Date | null;
+  error_message: string | null;
+}
+
+export const CHALLENGE_STATUSES: ChallengeStatus[] = [
+  'pending',
+  'created',
+  'failed',
+  'completed',
+  'voting',
+  'redeemed',
+];
+
+// Paid challenges whose escrow has not been settled yet
+export const UNRESOLVED_CHALLENGE_STATUSES: ChallengeStatus[] = ['pending', 'created', 'voting'];
+
+/**
+ * Generate the slug of a challenge's public page: the title made URL-safe, plus a random
+ * suffix so that challenges with the same title get different pages
+ */
+export function generateChallengeSlug(title: string): string {
+  const base = title
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 50)
+    .replace(/^-+|-+$/g, '');
+  return `${base || 'challenge'}-${randomBytes(4).toString('hex')}`;
+}
+
 /**
  * Insert a new challenge into the database
  */
@@ -30,8 +109,9 @@ export async function insertChallenge(data: ChallengeData): Promise<{ id: string
   const sql = `
     INSERT INTO challenges (
       challenge_id, title, description, duration_days, amount_usd, user_email,
-      guarantors, stripe_session_id, stripe_payment_intent_id, metadata_uri, status
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending')
+      guarantors, stripe_session_id, stripe_payment_intent_id, metadata_uri, slug, user_id,
+      invite_id, template_id, ai_conversation_id, ai_suggested, status
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'pending')
     RETURNING id
   `;
 
@@ -46,10 +126,35 @@ export async function insertChallenge(data: ChallengeData): Promise<{ id: string
     data.stripeSessionId,
     data.stripePaymentIntentId,
     data.metadataUri,
+    generateChallengeSlug(data.title),
+    data.userId || null,
+    data.inviteId || null,
+    data.templateId || null,
+    data.aiConversationId || null,
+    !!data.aiConversationId,
   ];
 
-  const result = await query(sql, params);
-  return { id: result.rows[0].id };
+  return transaction(async (client) => {
+    const result = await client.query(sql, params);
+    const id = result.rows[0].id;
+
+    if (data.onboardingSessionId) {
+      await client.query(
+        `UPDATE challenge_invites SET challenge_id = $1
+         WHERE onboarding_session_id = $2 AND challenge_id IS NULL`,
+        [id, data.onboardingSessionId]
+      );
+
+      // The draft is paid for, so it is never resumed
+      await client.query(
+        `UPDATE onboarding_sessions SET completed_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND completed_at IS NULL`,
+        [data.onboardingSessionId]
+      );
+    }
+
+    return { id };
+  });
 }
 
 /**
@@ -116,27 +221,132 @@ export async function updateChallengeOnChain(
 /**
  * Get a challenge by challenge_id
  */
-export async function getChallengeById(challengeId: string) {
+export async function getChallengeById(challengeId: string): Promise<ChallengeRow | null> {
   const sql = 'SELECT * FROM challenges WHERE challenge_id = $1';
-  const result = await query(sql, [challengeId]);
+  const result = await query<ChallengeRow>(sql, [challengeId]);
   return result.rows[0] || null;
 }
 
 /**
  * Get challenges by user email
  */
-export async function getChallengesByUserEmail(userEmail: string) {
+export async function getChallengesByUserEmail(userEmail: string): Promise<ChallengeRow[]> {
   const sql = 'SELECT * FROM challenges WHERE user_email = $1 ORDER BY created_at DESC';
-  const result = await query(sql, [userEmail]);
+  const result = await query<ChallengeRow>(sql, [userEmail]);
   return result.rows;
 }
 
+// Challenges belong to a user by user_id; rows paid for before it was recorded
+// from checkout are matched by email. Parameters: $1 user ID, $2 email.
+export const USER_CHALLENGE_CONDITION =
+  '(user_id = $1 OR (user_id IS NULL AND LOWER(user_email) = LOWER($2)))';
+
+/**
+ * Get one of a user's challenges by ID
+ */
+export async function getUserChallenge(
+  user: { id: string; email: string },
+  id: string
+): Promise<ChallengeRow | null> {
+  const result = await query<ChallengeRow>(
+    `SELECT * FROM challenges WHERE ${USER_CHALLENGE_CONDITION} AND id = $3`,
+    [user.id, user.email, id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * A page of a user's challenges matching the filters, newest first, with the total count
+ */
+export async function listUserChallenges(
+  user: { id: string; email: string },
+  filters: ChallengeFilters = {},
+  limit: number = 20,
+  offset: number = 0
+): Promise<{ challenges: ChallengeRow[]; total: number }> {
+  const params = [
+    user.id,
+    user.email,
+    filters.statuses?.length ? filters.statuses : null,
+    filters.type ?? null,
+  ];
+  const where = `
+    WHERE ${USER_CHALLENGE_CONDITION}
+      AND ($3::text[] IS NULL OR status = ANY($3))
+      AND ($4::text IS NULL OR challenge_type = $4)`;
+
+  const [challengesResult, countResult] = await Promise.all([
+    query<ChallengeRow>(
+      `SELECT * FROM challenges ${where}
+       ORDER BY created_at DESC
+       LIMIT $5 OFFSET $6`,
+      [...params, limit, offset]
+    ),
+    query<{ total: string }>(`SELECT COUNT(*) AS total FROM challenges ${where}`, params),
+  ]);
+
+  return {
+    challenges: challengesResult.rows,
+    total: parseInt(countResult.rows[0].total, 10),
+  };
+}
+
+/**
+ * The API model of a challenge row, without its on-chain state
+ */
+export function toChallenge(row: ChallengeRow): Challenge {
+  return {
+    id: row.id,
+    challengeId: row.challenge_id,
+    title: row.title,
+    description: row.description,
+    status: row.status,
+    type: row.challenge_type,
+    resolutionMethod: row.resolution_method,
+    frequency: row.frequency,
+    frequencyDetails: row.frequency_details || {},
+    notificationSettings: row.notification_settings,
+    durationDays: row.duration_days,
+    amountUsd: parseFloat(row.amount_usd),
+    depositRecipient: row.deposit_recipient,
+    guarantors: row.guarantors || [],
+    templateId: row.template_id,
+    inviteId: row.invite_id,
+    slug: row.slug,
+    visibility: row.visibility,
+    showDeposit: row.show_deposit,
+    onChainChallengeId: row.on_chain_challenge_id,
+    transactionHash: row.transaction_hash,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    endsAt: row.ends_at,
+    onChain: null,
+  };
+}
+
+/**
+ * Get the total USD currently at stake for a user
+ * (paid challenges that have not been completed, failed or redeemed)
+ */
+export async function getActiveDepositTotal(user: {
+  id: string;
+  email: string;
+}): Promise<number> {
+  const sql = `
+    SELECT COALESCE(SUM(amount_usd), 0) as total
+    FROM challenges
+    WHERE ${USER_CHALLENGE_CONDITION} AND status = ANY($3)
+  `;
+  const result = await query(sql, [user.id, user.email, UNRESOLVED_CHALLENGE_STATUSES]);
+  return parseFloat(result.rows[0].total);
+}
+
 /**
  * Get pending challenges (for retry logic)
  */
-export async function getPendingChallenges() {
+export async function getPendingChallenges(): Promise<ChallengeRow[]> {
   const sql = "SELECT * FROM challenges WHERE status = 'pending' ORDER BY created_at ASC";
-  const result = await query(sql);
+  const result = await query<ChallengeRow>(sql);
   return result.rows;
 }
 
@@ -0,0 +1,145 @@
+import { query } from './index';
+import { ChallengeDraft, LinkedChallenge } from '@/types/onboarding';
+
+export interface ChallengeInvite {
+  id: string;
+  inviter_id: string;
+  onboarding_session_id: string | null;
+  challenge_id: string | null;
+  challenge_draft: ChallengeDraft;
+  invitee_email: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+// Invite with who sent it, as looked up from a link
+export interface ChallengeInviteDetails extends ChallengeInvite {
+  inviter_name: string | null;
+}
+
+interface LinkedChallengeRow {
+  id: string;
+  title: string;
+  status: string;
+  owner_name: string | null;
+  duration_days: number;
+  started_at: Date | null;
+  ends_at: Date | null;
+}
+
+const LINKED_CHALLENGE_COLUMNS = `
+  c.id, c.title, c.status, u.username AS owner_name, c.duration_days, c.started_at, c.ends_at`;
+
+/**
+ * Store an invite to the challenge drafted in an onboarding session
+ */
+export async function createChallengeInvite(data: {
+  tokenHash: string;
+  inviterId: string;
+  onboardingSessionId: string;
+  challengeDraft: ChallengeDraft;
+  inviteeEmail?: string | null;
+  expiresAt: Date;
+}): Promise<ChallengeInvite> {
+  const result = await query<ChallengeInvite>(
+    `INSERT INTO challenge_invites (
+       token_hash, inviter_id, onboarding_session_id, challenge_draft, invitee_email, expires_at
+     ) VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, inviter_id, onboarding_session_id, challenge_id, challenge_draft,
+               invitee_email, expires_at, created_at`,
+    [
+      data.tokenHash,
+      data.inviterId,
+      data.onboardingSessionId,
+      JSON.stringify(data.challengeDraft),
+      data.inviteeEmail || null,
+      data.expiresAt,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Look up an unexpired invite by the hash of its link token
+ */
+export async function getChallengeInviteByTokenHash(
+  tokenHash: string
+): Promise<ChallengeInviteDetails | null> {
+  const result = await query<ChallengeInviteDetails>(
+    `SELECT i.id, i.inviter_id, i.onboarding_session_id, i.challenge_id, i.challenge_draft,
+            i.invitee_email, i.expires_at, i.created_at, u.username AS inviter_name
+     FROM challenge_invites i
+     JOIN users u ON u.id = i.inviter_id
+     WHERE i.token_hash = $1
+       AND i.expires_at > CURRENT_TIMESTAMP
+       AND u.deleted_at IS NULL`,
+    [tokenHash]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get an invite by ID
+ */
+export async function getChallengeInvite(inviteId: string): Promise<ChallengeInvite | null> {
+  const result = await query<ChallengeInvite>(
+    `SELECT id, inviter_id, onboarding_session_id, challenge_id, challenge_draft,
+            invitee_email, expires_at, created_at
+     FROM challenge_invites WHERE id = $1`,
+    [inviteId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Get a challenge by ID, with its progress, as shown to the other side of an invite
+ */
+export async function getLinkedChallenge(challengeId: string): Promise<LinkedChallenge | null> {
+  const result = await query<LinkedChallengeRow>(
+    `SELECT ${LINKED_CHALLENGE_COLUMNS}
+     FROM challenges c
+     LEFT JOIN users u ON u.id = c.user_id
+     WHERE c.id = $1`,
+    [challengeId]
+  );
+  return result.rows[0] ? toLinkedChallenge(result.rows[0]) : null;
+}
+
+/**
+ * Challenges linked to one through invites, in both directions: the inviter's challenge
+ * it was joined from, and the challenges joined from invites to it
+ */
+export async function getLinkedChallenges(challengeId: string): Promise<LinkedChallenge[]> {
+  const result = await query<LinkedChallengeRow>(
+    `SELECT ${LINKED_CHALLENGE_COLUMNS}
+     FROM challenges c
+     LEFT JOIN users u ON u.id = c.user_id
+     WHERE c.id IN (
+       SELECT i.challenge_id
+       FROM challenges joined
+       JOIN challenge_invites i ON i.id = joined.invite_id
+       WHERE joined.id = $1 AND i.challenge_id IS NOT NULL
+       UNION
+       SELECT joined.id
+       FROM challenge_invites i
+       JOIN challenges joined ON joined.invite_id = i.id
+       WHERE i.challenge_id = $1
+     )
+       AND c.status <> 'failed'
+     ORDER BY c.created_at ASC`,
+    [challengeId]
+  );
+  return result.rows.map(toLinkedChallenge);
+}
+
+function toLinkedChallenge(row: LinkedChallengeRow): LinkedChallenge {
+  return {
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    ownerName: row.owner_name || 'A friend',
+    durationDays: row.duration_days,
+    startedAt: row.started_at,
+    endsAt: row.ends_at,
+  };
+}
@@ -1,5 +1,7 @@
 import { query, transaction } from './index';
+import { generateChallengeSlug } from './challenges';
 import {
+  AbandonedOnboardingSession,
   OnboardingSession,
   OnboardingStep,
   ChallengeDraft,
@@ -7,8 +9,17 @@ import {
   OnboardingAnalyticsEvent,
   AnalyticsEventType,
   AIConversation,
+  AIConversationSummary,
   SuggestedChallenge,
+  OnboardingMetrics,
+  OnboardingCohortMetrics,
+  OnboardingStepMetrics,
+  OnboardingPathMetrics,
+  TermsAcceptance,
+  TermsVersion,
 } from '@/types/onboarding';
+import { RequestMetadata } from '@/types/auth';
+import { ONBOARDING_STEPS } from '@/lib/onboarding/steps';
 
 // Onboarding Sessions
 
@@ -96,6 +107,76 @@ export async function updateOnboardingSession(
   return result.rows[0] || null;
 }
 
+// Mark sessions with no activity for `inactiveHours` as abandoned, oldest first.
+// Each session is claimed once, so concurrent job runs never process it twice.
+export async function markAbandonedOnboardingSessions(
+  inactiveHours: number,
+  limit: number = 100
+): Promise<AbandonedOnboardingSession[]> {
+  const result = await query<AbandonedOnboardingSession>(
+    `UPDATE onboarding_sessions s
+     SET abandoned_at = CURRENT_TIMESTAMP
+     FROM users u
+     WHERE u.id = s.user_id
+       AND s.id IN (
+         SELECT id FROM onboarding_sessions
+         WHERE completed_at IS NULL
+           AND abandoned_at IS NULL
+           AND updated_at < CURRENT_TIMESTAMP - $1 * INTERVAL '1 hour'
+         ORDER BY updated_at ASC
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+     RETURNING s.*, u.email,
+       (u.is_active AND u.deleted_at IS NULL AND u.onboarding_completed_at IS NULL) AS can_remind`,
+    [inactiveHours, limit]
+  );
+  return result.rows;
+}
+
+// Reopen the user's abandoned session (e.g. from a reminder link) if it was never completed.
+// Only one session is active at a time, so any other active one (e.g. started since) is abandoned.
+export async function resumeOnboardingSession(
+  sessionId: string,
+  userId: string
+): Promise<OnboardingSession | null> {
+  return transaction(async (client) => {
+    const result = await client.query<OnboardingSession>(
+      `UPDATE onboarding_sessions SET abandoned_at = NULL
+       WHERE id = $1 AND user_id = $2 AND completed_at IS NULL
+       RETURNING *`,
+      [sessionId, userId]
+    );
+    if (!result.rows[0]) return null;
+
+    await client.query(
+      `UPDATE onboarding_sessions SET abandoned_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND id <> $2 AND completed_at IS NULL AND abandoned_at IS NULL`,
+      [userId, sessionId]
+    );
+
+    return result.rows[0];
+  });
+}
+
+// Reopen the user's latest abandoned session that was never completed, e.g. when they come
+// back without a reminder link. Only call this when the user has no active session.
+export async function resumeLatestOnboardingSession(
+  userId: string
+): Promise<OnboardingSession | null> {
+  const result = await query<OnboardingSession>(
+    `UPDATE onboarding_sessions SET abandoned_at = NULL
+     WHERE id = (
+       SELECT id FROM onboarding_sessions
+       WHERE user_id = $1 AND completed_at IS NULL AND abandoned_at IS NOT NULL
+       ORDER BY created_at DESC LIMIT 1
+     )
+     RETURNING *`,
+    [userId]
+  );
+  return result.rows[0] || null;
+}
+
 // Analytics Events
 
 export async function trackOnboardingEvent(
@@ -145,16 +226,41 @@ export async function createAIConversation(
   return result.rows[0];
 }
 
+// Only returns the conversation if it belongs to the user
 export async function getAIConversation(
-  conversationId: string
+  conversationId: string,
+  userId: string
 ): Promise<AIConversation | null> {
   const result = await query<AIConversation>(
-    `SELECT * FROM ai_conversations WHERE id = $1`,
-    [conversationId]
+    `SELECT * FROM ai_conversations WHERE id = $1 AND user_id = $2`,
+    [conversationId, userId]
   );
   return result.rows[0] || null;
 }
 
+// The user's past conversations, most recently active first (conversations
+// started but never answered are left out)
+export async function listAIConversations(
+  userId: string,
+  limit: number = 20
+): Promise<AIConversationSummary[]> {
+  const result = await query<AIConversationSummary>(
+    `SELECT id, onboarding_session_id,
+            (SELECT m->>'content' FROM jsonb_array_elements(messages) m
+             WHERE m->>'role' = 'user' LIMIT 1) AS first_message,
+            jsonb_array_length(messages) AS message_count,
+            jsonb_array_length(suggested_challenges) AS suggestion_count,
+            selected_challenge->>'title' AS selected_title,
+            created_at, updated_at
+     FROM ai_conversations
+     WHERE user_id = $1 AND jsonb_array_length(messages) > 0
+     ORDER BY updated_at DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  return result.rows;
+}
+
 export async function updateAIConversation(
   conversationId: string,
   updates: {
@@ -202,19 +308,74 @@ export async function updateAIConversation(
 
 // User Terms Acceptance
 
-export async function acceptTerms(userId: string): Promise<void> {
-  await query(
-    `UPDATE users SET terms_accepted_at = CURRENT_TIMESTAMP WHERE id = $1`,
-    [userId]
+// The latest terms version already in effect
+export async function getCurrentTermsVersion(): Promise<TermsVersion | null> {
+  const result = await query<TermsVersion>(
+    `SELECT * FROM terms_versions
+     WHERE effective_at <= CURRENT_TIMESTAMP
+     ORDER BY effective_at DESC LIMIT 1`
   );
+  return result.rows[0] || null;
+}
+
+// Record the user's acceptance of a terms version
+export async function acceptTerms(
+  userId: string,
+  termsVersionId: string,
+  metadata: RequestMetadata
+): Promise<void> {
+  await transaction(async (client) => {
+    await client.query(
+      `INSERT INTO terms_acceptances (user_id, terms_version_id, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, termsVersionId, metadata.ipAddress, metadata.userAgent]
+    );
+    await client.query(
+      `UPDATE users SET terms_accepted_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [userId]
+    );
+  });
 }
 
+// Whether the user has accepted the current terms version
 export async function hasAcceptedTerms(userId: string): Promise<boolean> {
-  const result = await query<{ terms_accepted_at: Date | null }>(
-    `SELECT terms_accepted_at FROM users WHERE id = $1`,
+  const result = await query<{ accepted: boolean }>(
+    `SELECT EXISTS (
+       SELECT 1 FROM terms_acceptances
+       WHERE user_id = $1
+         AND terms_version_id = (
+           SELECT id FROM terms_versions
+           WHERE effective_at <= CURRENT_TIMESTAMP
+           ORDER BY effective_at DESC LIMIT 1
+         )
+     ) AS accepted`,
     [userId]
   );
-  return result.rows[0]?.terms_accepted_at !== null;
+  return result.rows[0]?.accepted || false;
+}
+
+export async function getTermsAcceptanceHistory(
+  userId: string
+): Promise<TermsAcceptance[]> {
+  const result = await query<{
+    version: string;
+    accepted_at: Date;
+    ip_address: string | null;
+    user_agent: string | null;
+  }>(
+    `SELECT tv.version, ta.accepted_at, ta.ip_address, ta.user_agent
+     FROM terms_acceptances ta
+     JOIN terms_versions tv ON tv.id = ta.terms_version_id
+     WHERE ta.user_id = $1
+     ORDER BY ta.accepted_at DESC`,
+    [userId]
+  );
+  return result.rows.map((row) => ({
+    termsVersion: row.version,
+    acceptedAt: row.accepted_at,
+    ipAddress: row.ip_address,
+    userAgent: row.user_agent,
+  }));
 }
 
 export async function markOnboardingComplete(userId: string): Promise<void> {
@@ -254,6 +415,8 @@ export async function completeOnboardingWithChallenge(
     ai_conversation_id?: string;
     ai_suggested: boolean;
     metadata_uri?: string;
+    template_id?: string;
+    invite_id?: string;
   }
 ): Promise<{ challengeId: string }> {
   return transaction(async (client) => {
@@ -263,8 +426,8 @@ export async function completeOnboardingWithChallenge(
         challenge_id, title, description, duration_days, amount_usd, user_email, user_id,
         guarantors, challenge_type, resolution_method, frequency, frequency_details,
         notification_settings, deposit_recipient, linked_friend_email, ai_conversation_id,
-        ai_suggested, metadata_uri, status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, 'pending')
+        ai_suggested, metadata_uri, template_id, invite_id, slug, status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, 'pending')
       RETURNING id`,
       [
         challengeData.challenge_id,
@@ -285,9 +448,19 @@ export async function completeOnboardingWithChallenge(
         challengeData.ai_conversation_id || null,
         challengeData.ai_suggested,
         challengeData.metadata_uri || null,
+        challengeData.template_id || null,
+        challengeData.invite_id || null,
+        generateChallengeSlug(challengeData.title),
       ]
     );
 
+    // Invites sent while drafting this challenge now point at it
+    await client.query(
+      `UPDATE challenge_invites SET challenge_id = $1
+       WHERE onboarding_session_id = $2 AND challenge_id IS NULL`,
+      [challengeResult.rows[0].id, sessionId]
+    );
+
     // Mark onboarding session as completed
     await client.query(
       `UPDATE onboarding_sessions SET completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
@@ -304,78 +477,170 @@ export async function completeOnboardingWithChallenge(
   });
 }
 
-// Get onboarding metrics for analytics
+// Get onboarding funnel metrics for sessions started in the given range (both ends
+// optional), overall and per weekly cohort. A session "reached" a step if it completed
+// it, is on it, or finished onboarding.
 export async function getOnboardingMetrics(
   startDate?: Date,
   endDate?: Date
-): Promise<{
-  totalSessions: number;
-  completedSessions: number;
-  abandonedSessions: number;
-  averageTimeToComplete: number;
-  stepDropoffRates: Record<OnboardingStep, number>;
-  popularChallengeTypes: Array<{ type: string; count: number }>;
-}> {
-  const dateFilter = startDate && endDate 
-    ? `AND created_at BETWEEN $1 AND $2` 
-    : '';
-  const params = startDate && endDate ? [startDate, endDate] : [];
-
-  const totalResult = await query<{ count: string }>(
-    `SELECT COUNT(*) as count FROM onboarding_sessions WHERE 1=1 ${dateFilter}`,
+): Promise<OnboardingMetrics> {
+  // Every query takes the range as $1/$2 (NULL = open ended) so placeholders never shift
+  const createdInRange = (table: string) => `($1::timestamptz IS NULL OR ${table}.created_at >= $1)
+    AND ($2::timestamptz IS NULL OR ${table}.created_at <= $2)`;
+  const sessionFilter = createdInRange('s');
+  const cohortWeek = `to_char(date_trunc('week', s.created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')`;
+  const params = [startDate || null, endDate || null];
+
+  // Grouping sets return one row per cohort plus an overall row (week_start NULL)
+  const sessionsResult = await query<{
+    week_start: string | null;
+    total: string;
+    completed: string;
+    abandoned: string;
+    median_time_to_complete: number | null;
+    ai_sessions: string;
+    ai_completed: string;
+    manual_sessions: string;
+    manual_completed: string;
+  }>(
+    `SELECT week_start,
+            COUNT(*) AS total,
+            COUNT(completed_at) AS completed,
+            COUNT(abandoned_at) AS abandoned,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY time_to_complete) AS median_time_to_complete,
+            COUNT(*) FILTER (WHERE past_ai_chat AND ai_suggested) AS ai_sessions,
+            COUNT(completed_at) FILTER (WHERE past_ai_chat AND ai_suggested) AS ai_completed,
+            COUNT(*) FILTER (WHERE past_ai_chat AND NOT ai_suggested) AS manual_sessions,
+            COUNT(completed_at) FILTER (WHERE past_ai_chat AND NOT ai_suggested) AS manual_completed
+     FROM (
+       SELECT ${cohortWeek} AS week_start,
+              s.completed_at,
+              s.abandoned_at,
+              EXTRACT(EPOCH FROM (s.completed_at - s.started_at))::float8 AS time_to_complete,
+              (s.steps_completed ? 'ai-chat' OR s.completed_at IS NOT NULL) AS past_ai_chat,
+              COALESCE(s.challenge_draft->>'aiSuggested' = 'true', FALSE) AS ai_suggested
+       FROM onboarding_sessions s
+       WHERE ${sessionFilter}
+     ) sessions
+     GROUP BY GROUPING SETS ((week_start), ())
+     ORDER BY week_start`,
     params
   );
 
-  const completedResult = await query<{ count: string }>(
-    `SELECT COUNT(*) as count FROM onboarding_sessions WHERE completed_at IS NOT NULL ${dateFilter}`,
-    params
+  const reachedResult = await query<{
+    week_start: string | null;
+    step: OnboardingStep;
+    reached: string;
+  }>(
+    `SELECT week_start, step, COUNT(*) AS reached
+     FROM (
+       SELECT ${cohortWeek} AS week_start, step
+       FROM onboarding_sessions s
+       JOIN unnest($3::text[]) AS step
+         ON s.steps_completed ? step OR s.current_step = step OR s.completed_at IS NOT NULL
+       WHERE ${sessionFilter}
+     ) reached_steps
+     GROUP BY GROUPING SETS ((week_start, step), (step))`,
+    [...params, ONBOARDING_STEPS]
   );
 
-  const abandonedResult = await query<{ count: string }>(
-    `SELECT COUNT(*) as count FROM onboarding_sessions WHERE abandoned_at IS NOT NULL ${dateFilter}`,
+  // Time on a step is recorded with its step_completed event
+  const stepTimeResult = await query<{
+    week_start: string | null;
+    step_name: OnboardingStep;
+    median_time: number;
+  }>(
+    `SELECT week_start, step_name,
+            percentile_cont(0.5) WITHIN GROUP (ORDER BY time_spent_seconds) AS median_time
+     FROM (
+       SELECT ${cohortWeek} AS week_start, a.step_name, a.time_spent_seconds
+       FROM onboarding_analytics a
+       JOIN onboarding_sessions s ON s.id = a.session_id
+       WHERE a.event_type = 'step_completed'
+         AND a.time_spent_seconds IS NOT NULL
+         AND ${sessionFilter}
+     ) step_times
+     GROUP BY GROUPING SETS ((week_start, step_name), (step_name))`,
     params
   );
 
-  const avgTimeResult = await query<{ avg_time: string }>(
-    `SELECT AVG(EXTRACT(EPOCH FROM (completed_at - started_at))) as avg_time 
-     FROM onboarding_sessions WHERE completed_at IS NOT NULL ${dateFilter}`,
-    params
-  );
-
-  // Step dropoff analysis
-  const dropoffResult = await query<{ step_name: OnboardingStep; count: string }>(
-    `SELECT step_name, COUNT(*) as count 
-     FROM onboarding_analytics 
-     WHERE event_type = 'step_started' ${dateFilter.replace('created_at', 'onboarding_analytics.created_at')}
-     GROUP BY step_name`,
-    params
-  );
-
-  const stepDropoffRates: Record<OnboardingStep, number> = {} as Record<OnboardingStep, number>;
-  dropoffResult.rows.forEach(row => {
-    stepDropoffRates[row.step_name] = parseInt(row.count);
-  });
-
   // Popular challenge types
   const challengeTypesResult = await query<{ challenge_type: string; count: string }>(
     `SELECT challenge_type, COUNT(*) as count 
-     FROM challenges 
-     WHERE challenge_type IS NOT NULL ${dateFilter}
+     FROM challenges c
+     WHERE challenge_type IS NOT NULL AND ${createdInRange('c')}
      GROUP BY challenge_type 
      ORDER BY count DESC 
      LIMIT 10`,
     params
   );
 
+  const reached = new Map<string, number>();
+  for (const row of reachedResult.rows) {
+    reached.set(`${row.week_start}|${row.step}`, parseInt(row.reached));
+  }
+  const stepTimes = new Map<string, number>();
+  for (const row of stepTimeResult.rows) {
+    stepTimes.set(`${row.week_start}|${row.step_name}`, row.median_time);
+  }
+
+  const summarize = (
+    row: (typeof sessionsResult.rows)[number]
+  ): Omit<OnboardingCohortMetrics, 'weekStart'> => {
+    const totalSessions = parseInt(row.total);
+    const completedSessions = parseInt(row.completed);
+
+    const steps = ONBOARDING_STEPS.map((step, index): OnboardingStepMetrics => {
+      const stepReached = reached.get(`${row.week_start}|${step}`) || 0;
+      const nextStep = ONBOARDING_STEPS[index + 1];
+      const continued = nextStep
+        ? reached.get(`${row.week_start}|${nextStep}`) || 0
+        : completedSessions;
+
+      return {
+        step,
+        reached: stepReached,
+        continued,
+        conversionRate: toRate(continued, stepReached),
+        medianTimeSeconds: stepTimes.get(`${row.week_start}|${step}`) ?? null,
+      };
+    });
+
+    return {
+      totalSessions,
+      completedSessions,
+      abandonedSessions: parseInt(row.abandoned),
+      completionRate: toRate(completedSessions, totalSessions),
+      medianTimeToCompleteSeconds: row.median_time_to_complete,
+      steps,
+      aiSuggested: toPathMetrics(row.ai_sessions, row.ai_completed),
+      manual: toPathMetrics(row.manual_sessions, row.manual_completed),
+    };
+  };
+
+  // The () grouping set always yields the overall row, even when no session matched
+  const overall = sessionsResult.rows.find((row) => row.week_start === null)!;
+
   return {
-    totalSessions: parseInt(totalResult.rows[0]?.count || '0'),
-    completedSessions: parseInt(completedResult.rows[0]?.count || '0'),
-    abandonedSessions: parseInt(abandonedResult.rows[0]?.count || '0'),
-    averageTimeToComplete: parseFloat(avgTimeResult.rows[0]?.avg_time || '0'),
-    stepDropoffRates,
+    ...summarize(overall),
     popularChallengeTypes: challengeTypesResult.rows.map(row => ({
       type: row.challenge_type,
       count: parseInt(row.count),
     })),
+    cohorts: sessionsResult.rows
+      .filter((row) => row.week_start !== null)
+      .map((row) => ({ weekStart: row.week_start as string, ...summarize(row) })),
+  };
+}
+
+function toRate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+function toPathMetrics(sessions: string, completed: string): OnboardingPathMetrics {
+  return {
+    sessions: parseInt(sessions),
+    completed: parseInt(completed),
+    completionRate: toRate(parseInt(completed), parseInt(sessions)),
   };
 }
@@ -0,0 +1,119 @@
+import { query } from './index';
+import {
+  ChallengeShareEventType,
+  ChallengeVisibility,
+  SharedChallenge,
+} from '@/types/challenge';
+
+export interface ChallengeShareSettingsRow {
+  id: string;
+  user_id: string | null;
+  slug: string;
+  visibility: ChallengeVisibility;
+  show_deposit: boolean;
+}
+
+interface SharedChallengeRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  status: string;
+  owner_name: string | null;
+  duration_days: number;
+  amount_usd: string;
+  show_deposit: boolean;
+  guarantors_count: number;
+  visibility: ChallengeVisibility;
+  started_at: Date | null;
+  ends_at: Date | null;
+}
+
+/**
+ * Get a challenge's public page data by slug. Private challenges, failed ones and those
+ * without an owner account (or of deleted accounts) have no public page, since nobody
+ * could manage its privacy settings.
+ */
+export async function getSharedChallengeBySlug(
+  slug: string
+): Promise<(SharedChallenge & { id: string }) | null> {
+  const result = await query<SharedChallengeRow>(
+    `SELECT c.id, c.slug, c.title, c.description, c.status, u.username AS owner_name,
+            c.duration_days, c.amount_usd, c.show_deposit,
+            jsonb_array_length(COALESCE(c.guarantors, '[]'::jsonb)) AS guarantors_count,
+            c.visibility, c.started_at, c.ends_at
+     FROM challenges c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.slug = $1
+       AND c.visibility <> 'private'
+       AND c.status <> 'failed'
+       AND u.deleted_at IS NULL`,
+    [slug]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description,
+    status: row.status,
+    // Accounts without a username
+    ownerName: row.owner_name || 'A Showup member',
+    durationDays: row.duration_days,
+    depositAmount: row.show_deposit ? parseFloat(row.amount_usd) : null,
+    guarantorsCount: row.guarantors_count,
+    visibility: row.visibility,
+    startedAt: row.started_at,
+    endsAt: row.ends_at,
+  };
+}
+
+/**
+ * Get the public page settings of a challenge by ID
+ */
+export async function getChallengeShareSettings(
+  challengeId: string
+): Promise<ChallengeShareSettingsRow | null> {
+  const result = await query<ChallengeShareSettingsRow>(
+    'SELECT id, user_id, slug, visibility, show_deposit FROM challenges WHERE id = $1',
+    [challengeId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Update the public page settings of a challenge
+ */
+export async function updateChallengeShareSettings(
+  challengeId: string,
+  settings: { visibility?: ChallengeVisibility; showDeposit?: boolean }
+): Promise<ChallengeShareSettingsRow | null> {
+  const result = await query<ChallengeShareSettingsRow>(
+    `UPDATE challenges
+     SET visibility = COALESCE($2, visibility),
+         show_deposit = COALESCE($3, show_deposit)
+     WHERE id = $1
+     RETURNING id, user_id, slug, visibility, show_deposit`,
+    [challengeId, settings.visibility ?? null, settings.showDeposit ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Track a share link being shared or opened
+ */
+export async function trackChallengeShareEvent(
+  challengeId: string,
+  eventType: ChallengeShareEventType,
+  channel: string | null,
+  eventData: Record<string, unknown> = {}
+): Promise<void> {
+  await query(
+    `INSERT INTO challenge_share_events (challenge_id, event_type, channel, event_data)
+     VALUES ($1, $2, $3, $4)`,
+    [challengeId, eventType, channel, JSON.stringify(eventData)]
+  );
+}
@@ -0,0 +1,105 @@
+import { query } from './index';
+import { ChallengeTemplate, ChallengeTemplateFilters } from '@/types/onboarding';
+
+interface ChallengeTemplateRow {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  challenge_type: ChallengeTemplate['type'];
+  resolution_method: string | null;
+  frequency: ChallengeTemplate['frequency'];
+  frequency_details: ChallengeTemplate['frequencyDetails'];
+  duration_days: number;
+  deposit_usd: string;
+  notification_settings: ChallengeTemplate['notificationSettings'];
+  guarantors_count: number;
+  usage_count: string;
+  ended_count: string;
+  completed_count: string;
+}
+
+// Challenges that were never paid for or never made it on-chain don't count towards the stats
+const TEMPLATE_STATS_JOIN = `
+  LEFT JOIN challenges c
+    ON c.template_id = t.id AND c.status NOT IN ('pending', 'failed')`;
+
+const TEMPLATE_COLUMNS = `
+  t.*,
+  COUNT(c.id) AS usage_count,
+  COUNT(c.id) FILTER (WHERE c.status = 'completed' OR c.ends_at <= CURRENT_TIMESTAMP) AS ended_count,
+  COUNT(c.id) FILTER (WHERE c.status = 'completed') AS completed_count`;
+
+/**
+ * Active templates matching the filters, in curated order, with usage and completion stats
+ */
+export async function listChallengeTemplates(
+  filters: ChallengeTemplateFilters = {},
+  limit: number = 50
+): Promise<ChallengeTemplate[]> {
+  const search = filters.search?.trim();
+
+  const result = await query<ChallengeTemplateRow>(
+    `SELECT ${TEMPLATE_COLUMNS}
+     FROM challenge_templates t
+     ${TEMPLATE_STATS_JOIN}
+     WHERE t.is_active
+       AND ($1::text IS NULL OR t.challenge_type = $1)
+       AND ($2::int IS NULL OR t.duration_days >= $2)
+       AND ($3::int IS NULL OR t.duration_days <= $3)
+       AND ($4::numeric IS NULL OR t.deposit_usd >= $4)
+       AND ($5::numeric IS NULL OR t.deposit_usd <= $5)
+       AND ($6::text IS NULL OR t.title ILIKE $6 OR t.description ILIKE $6)
+     GROUP BY t.id
+     ORDER BY t.sort_order, t.title
+     LIMIT $7`,
+    [
+      filters.type ?? null,
+      filters.minDurationDays ?? null,
+      filters.maxDurationDays ?? null,
+      filters.minDeposit ?? null,
+      filters.maxDeposit ?? null,
+      search ? `%${search.replace(/[\\%_]/g, '\\$&')}%` : null,
+      limit,
+    ]
+  );
+
+  return result.rows.map(toChallengeTemplate);
+}
+
+/**
+ * Get an active template by ID
+ */
+export async function getChallengeTemplate(templateId: string): Promise<ChallengeTemplate | null> {
+  const result = await query<ChallengeTemplateRow>(
+    `SELECT ${TEMPLATE_COLUMNS}
+     FROM challenge_templates t
+     ${TEMPLATE_STATS_JOIN}
+     WHERE t.id = $1 AND t.is_active
+     GROUP BY t.id`,
+    [templateId]
+  );
+
+  return result.rows[0] ? toChallengeTemplate(result.rows[0]) : null;
+}
+
+function toChallengeTemplate(row: ChallengeTemplateRow): ChallengeTemplate {
+  const endedCount = parseInt(row.ended_count, 10);
+
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    description: row.description,
+    type: row.challenge_type,
+    resolutionMethod: row.resolution_method,
+    frequency: row.frequency,
+    frequencyDetails: row.frequency_details || {},
+    durationDays: row.duration_days,
+    depositAmount: parseFloat(row.deposit_usd),
+    notificationSettings: row.notification_settings,
+    guarantorsCount: row.guarantors_count,
+    usageCount: parseInt(row.usage_count, 10),
+    completionRate: endedCount > 0 ? parseInt(row.completed_count, 10) / endedCount : null,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Outgoing mail
+ *
+ * Mail is sent through a pluggable transport selected with MAIL_TRANSPORT:
+ * - "file": writes each message as JSON to MAIL_OUTBOX_DIR for local development
+ * - "resend": delivers through the Resend HTTP API using RESEND_API_KEY
+ *
+ * MAIL_TRANSPORT defaults to "file" in development only; elsewhere it must be set.
+ * instrumentation.ts checks this when the server starts.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+const MAIL_FROM = process.env.MAIL_FROM || "Showup <no-reply@showup.lifestyle>";
+const MAIL_OUTBOX_DIR = process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), ".outbox");
+const RESEND_API_KEY = process.env.RESEND_API_KEY;
+const RESEND_API_URL = "https://api.resend.com/emails";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Writes messages to a local outbox directory instead of delivering them
+ */
+export function createFileTransport(outboxDir: string = MAIL_OUTBOX_DIR): MailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await mkdir(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}_${Math.random().toString(36).substring(7)}.json`;
+      await writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+
+      if (process.env.NODE_ENV === "development") {
+        console.log("Mail written to outbox:", { to: message.to, subject: message.subject, fileName });
+      }
+    },
+  };
+}
+
+/**
+ * Delivers messages through the Resend HTTP API
+ */
+export function createResendTransport(apiKey: string | undefined = RESEND_API_KEY): MailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      if (!apiKey) {
+        throw new Error("RESEND_API_KEY environment variable is not set");
+      }
+
+      const response = await fetch(RESEND_API_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Mail delivery failed (${response.status}): ${error}`);
+      }
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport
+ */
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const transportName =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === "development" ? "file" : undefined);
+
+  if (!transportName) {
+    throw new Error("MAIL_TRANSPORT environment variable is not set");
+  }
+
+  switch (transportName) {
+    case "resend":
+      transport = createResendTransport();
+      break;
+    case "file":
+      transport = createFileTransport();
+      break;
+    default:
+      throw new Error(`Unsupported MAIL_TRANSPORT: ${process.env.MAIL_TRANSPORT}`);
+  }
+
+  return transport;
+}
+
+/**
+ * Override the mail transport (e.g. for scripts or alternative providers)
+ */
+export function setMailTransport(customTransport: MailTransport | null): void {
+  transport = customTransport;
+}
+
+/**
+ * Send an email using the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: MAIL_FROM });
+}
@@ -0,0 +1,154 @@
+/**
+ * Email templates
+ */
+
+import type { MailMessage } from "./index";
+import type { ChallengeDraft } from "@/types/onboarding";
+
+type Template = Omit<MailMessage, "to">;
+
+/**
+ * Email address verification
+ */
+export function verificationEmail(verifyUrl: string): Template {
+  return {
+    subject: "Verify your Showup email address",
+    text: `Welcome to Showup!
+
+Please confirm your email address by opening the link below:
+
+${verifyUrl}
+
+This link expires in 24 hours. If you did not create a Showup account, you can ignore this email.`,
+    html: `<p>Welcome to Showup!</p>
+<p>Please confirm your email address by clicking the link below:</p>
+<p><a href="${verifyUrl}">Verify my email</a></p>
+<p>This link expires in 24 hours. If you did not create a Showup account, you can ignore this email.</p>`,
+  };
+}
+
+/**
+ * Password reset link
+ */
+export function passwordResetEmail(resetUrl: string): Template {
+  return {
+    subject: "Reset your Showup password",
+    text: `We received a request to reset the password for your Showup account.
+
+Open the link below to choose a new password:
+
+${resetUrl}
+
+This link expires in 1 hour and can only be used once. If you did not request a password reset, you can ignore this email.`,
+    html: `<p>We received a request to reset the password for your Showup account.</p>
+<p><a href="${resetUrl}">Choose a new password</a></p>
+<p>This link expires in 1 hour and can only be used once. If you did not request a password reset, you can ignore this email.</p>`,
+  };
+}
+
+/**
+ * Confirmation after a successful password reset
+ */
+export function passwordChangedEmail(): Template {
+  return {
+    subject: "Your Showup password was changed",
+    text: `The password for your Showup account was just changed and all devices were signed out.
+
+If this wasn't you, please reset your password immediately and contact support.`,
+    html: `<p>The password for your Showup account was just changed and all devices were signed out.</p>
+<p>If this wasn't you, please reset your password immediately and contact support.</p>`,
+  };
+}
+
+/**
+ * Account locked after too many failed login attempts
+ */
+export function accountLockedEmail(
+  unlockUrl: string,
+  lockoutMinutes: number,
+): Template {
+  return {
+    subject: "Your Showup account has been temporarily locked",
+    text: `We locked your Showup account after several failed login attempts.
+
+It will unlock automatically in ${lockoutMinutes} minutes. If this was you, you can unlock it now:
+
+${unlockUrl}
+
+If this wasn't you, someone may be trying to access your account. We recommend resetting your password.`,
+    html: `<p>We locked your Showup account after several failed login attempts.</p>
+<p>It will unlock automatically in ${lockoutMinutes} minutes. If this was you, you can unlock it now:</p>
+<p><a href="${unlockUrl}">Unlock my account</a></p>
+<p>If this wasn't you, someone may be trying to access your account. We recommend resetting your password.</p>`,
+  };
+}
+
+/**
+ * Confirmation after two-factor authentication was turned on
+ */
+export function mfaEnabledEmail(): Template {
+  return {
+    subject: "Two-factor authentication is now on for your Showup account",
+    text: `Two-factor authentication was just turned on for your Showup account. You will be asked for a code from your authenticator app when you log in.
+
+Keep your recovery codes somewhere safe. If this wasn't you, please contact support immediately.`,
+    html: `<p>Two-factor authentication was just turned on for your Showup account. You will be asked for a code from your authenticator app when you log in.</p>
+<p>Keep your recovery codes somewhere safe. If this wasn't you, please contact support immediately.</p>`,
+  };
+}
+
+/**
+ * Warning after two-factor authentication was turned off
+ */
+export function mfaDisabledEmail(): Template {
+  return {
+    subject: "Two-factor authentication was turned off for your Showup account",
+    text: `Two-factor authentication was just turned off for your Showup account.
+
+If this wasn't you, please reset your password immediately and contact support.`,
+    html: `<p>Two-factor authentication was just turned off for your Showup account.</p>
+<p>If this wasn't you, please reset your password immediately and contact support.</p>`,
+  };
+}
+
+/**
+ * Reminder to finish an onboarding session that was left unfinished
+ */
+export function onboardingReminderEmail(
+  resumeUrl: string,
+  draft: Partial<ChallengeDraft>,
+): Template {
+  const title = draft.title?.trim();
+  const details = [
+    draft.durationDays && `${draft.durationDays} days`,
+    draft.depositAmount && `$${draft.depositAmount} deposit`,
+  ].filter(Boolean).join(", ");
+  const summary = title
+    ? `You were setting up "${title}"${details ? ` (${details})` : ""}.`
+    : "You started setting up your first Showup challenge.";
+
+  return {
+    subject: title ? `Finish your challenge: ${title}` : "Finish setting up your Showup challenge",
+    text: `${summary}
+
+Everything you entered is saved. Pick up where you left off:
+
+${resumeUrl}
+
+If you've changed your mind, you can ignore this email.`,
+    html: `<p>${escapeHtml(summary)}</p>
+<p>Everything you entered is saved. Pick up where you left off:</p>
+<p><a href="${resumeUrl}">Finish my challenge</a></p>
+<p>If you've changed your mind, you can ignore this email.</p>`,
+  };
+}
+
+// User-provided text has to be escaped before it goes into HTML mail
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,75 @@
+import {
+  markAbandonedOnboardingSessions,
+  trackOnboardingEvent,
+} from '@/lib/db/onboarding';
+import { sendMail } from '@/lib/mail';
+import { onboardingReminderEmail } from '@/lib/mail/templates';
+import type { OnboardingSession } from '@/types/onboarding';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+// Hours without any progress before an unfinished session counts as abandoned
+export const ONBOARDING_ABANDON_AFTER_HOURS = parseFloat(
+  process.env.ONBOARDING_ABANDON_AFTER_HOURS || '48'
+);
+// Sessions handled per run; a backlog is worked off over the following runs
+const BATCH_SIZE = 100;
+
+export interface AbandonmentJobResult {
+  abandoned: number;
+  remindersSent: number;
+  remindersFailed: number;
+}
+
+// Link that reopens the session at the step the user stopped on
+export function getResumeUrl(session: Pick<OnboardingSession, 'id' | 'current_step'>): string {
+  const params = new URLSearchParams({ resume: session.id });
+  return `${NEXT_PUBLIC_APP_URL}/onboarding/${session.current_step}?${params}`;
+}
+
+// Mark inactive onboarding sessions as abandoned, record the analytics event
+// and send each user a reminder to finish their challenge
+export async function runAbandonmentJob(
+  inactiveHours: number = ONBOARDING_ABANDON_AFTER_HOURS
+): Promise<AbandonmentJobResult> {
+  const sessions = await markAbandonedOnboardingSessions(inactiveHours, BATCH_SIZE);
+  const result: AbandonmentJobResult = {
+    abandoned: sessions.length,
+    remindersSent: 0,
+    remindersFailed: 0,
+  };
+
+  for (const session of sessions) {
+    let reminderSent = false;
+
+    // A failed delivery must not stop the other reminders
+    if (session.can_remind) {
+      try {
+        await sendMail({
+          to: session.email,
+          ...onboardingReminderEmail(getResumeUrl(session), session.challenge_draft || {}),
+        });
+        reminderSent = true;
+        result.remindersSent++;
+      } catch (mailError) {
+        console.error('Failed to send onboarding reminder:', mailError);
+        result.remindersFailed++;
+      }
+    }
+
+    await trackOnboardingEvent(
+      session.id,
+      session.user_id,
+      'session_abandoned',
+      session.current_step,
+      {
+        stepsCompleted: session.steps_completed,
+        inactiveHours,
+        reminderSent,
+      }
+    );
+  }
+
+  return result;
+}
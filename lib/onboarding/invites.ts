@@ -0,0 +1,78 @@
+import { generateSecureToken, hashToken } from '@/lib/auth';
+import { createChallengeInvite, type ChallengeInviteDetails } from '@/lib/db/invites';
+import type {
+  ChallengeDraft,
+  ChallengeInvitePreview,
+  LinkedChallenge,
+  OnboardingSession,
+} from '@/types/onboarding';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+const INVITE_TTL_DAYS = 30;
+
+// The challenge itself is shared; who gets the deposit and who the guarantors are is not
+const SHARED_DRAFT_FIELDS: (keyof ChallengeDraft)[] = [
+  'title',
+  'description',
+  'type',
+  'resolutionMethod',
+  'frequency',
+  'frequencyDetails',
+  'durationDays',
+  'depositAmount',
+  'notificationSettings',
+  'guarantorsCount',
+  'templateId',
+];
+
+export function getInviteUrl(token: string): string {
+  return `${NEXT_PUBLIC_APP_URL}/join/${token}`;
+}
+
+export function toSharedDraft(draft: ChallengeDraft): ChallengeDraft {
+  const shared: ChallengeDraft = {};
+  for (const field of SHARED_DRAFT_FIELDS) {
+    if (draft[field] !== undefined) {
+      (shared as Record<string, unknown>)[field] = draft[field];
+    }
+  }
+  return shared;
+}
+
+/**
+ * Create an invite link to the challenge drafted in the session. The token is only
+ * returned here, in the link; the database keeps its hash.
+ */
+export async function createInvite(
+  inviterId: string,
+  session: Pick<OnboardingSession, 'id' | 'challenge_draft'>
+): Promise<{ url: string; expiresAt: Date }> {
+  const token = generateSecureToken();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const draft = session.challenge_draft || {};
+
+  await createChallengeInvite({
+    tokenHash: hashToken(token),
+    inviterId,
+    onboardingSessionId: session.id,
+    challengeDraft: toSharedDraft(draft),
+    inviteeEmail: draft.depositRecipient === 'friend' ? draft.linkedFriendEmail : null,
+    expiresAt,
+  });
+
+  return { url: getInviteUrl(token), expiresAt };
+}
+
+export function toInvitePreview(
+  invite: ChallengeInviteDetails,
+  inviterChallenge: LinkedChallenge | null
+): ChallengeInvitePreview {
+  return {
+    inviterName: invite.inviter_name || 'A friend',
+    challenge: toSharedDraft(invite.challenge_draft),
+    inviterChallenge,
+    expiresAt: invite.expires_at,
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { ChallengeDraft, OnboardingStep } from '@/types/onboarding';
+import { getIncompleteSteps, getStepRequirementError, planStepTransition } from './steps';
+
+const VALID_DRAFT: ChallengeDraft = {
+  title: 'Run every morning',
+  description: 'A 5km run before work',
+  type: 'fitness',
+  resolutionMethod: 'Strava screenshots',
+  depositAmount: 50,
+  depositRecipient: 'platform',
+  notificationSettings: { enabled: true, reminderTime: '07:00' },
+  frequency: 'daily',
+  frequencyDetails: {},
+  durationDays: 30,
+  guarantorsCount: 2,
+};
+
+function session(current_step: OnboardingStep, steps_completed: OnboardingStep[] = []) {
+  return { current_step, steps_completed };
+}
+
+describe('planStepTransition', () => {
+  it('stays on the current step', () => {
+    const result = planStepTransition(session('resolution', ['terms']), 'resolution', {}, true);
+    expect(result).toEqual({ ok: true, kind: 'stay', stepsCompleted: ['terms'] });
+  });
+
+  it('returns to an earlier step without checking requirements', () => {
+    const result = planStepTransition(
+      session('deposit', ['terms', 'ai-chat', 'challenge-definition', 'resolution']),
+      'ai-chat',
+      {},
+      false
+    );
+    expect(result).toMatchObject({ ok: true, kind: 'return' });
+  });
+
+  it('advances to the next step and completes the current one', () => {
+    const result = planStepTransition(session('terms'), 'ai-chat', {}, true);
+    expect(result).toEqual({ ok: true, kind: 'advance', stepsCompleted: ['terms'] });
+  });
+
+  it('does not complete a step twice', () => {
+    const result = planStepTransition(session('terms', ['terms']), 'ai-chat', {}, true);
+    expect(result).toMatchObject({ ok: true, stepsCompleted: ['terms'] });
+  });
+
+  it('rejects skipping a step that has not been completed', () => {
+    const result = planStepTransition(session('terms'), 'challenge-definition', VALID_DRAFT, true);
+    expect(result).toMatchObject({ ok: false, code: 'illegal_step_transition' });
+  });
+
+  it('rejects advancing when a completed step no longer meets its requirements', () => {
+    const result = planStepTransition(
+      session('challenge-definition', ['terms', 'ai-chat']),
+      'resolution',
+      { ...VALID_DRAFT, title: '' },
+      true
+    );
+    expect(result).toMatchObject({ ok: false, code: 'step_incomplete' });
+  });
+
+  it('rejects advancing past terms that are not accepted', () => {
+    const result = planStepTransition(session('terms'), 'ai-chat', VALID_DRAFT, false);
+    expect(result).toMatchObject({ ok: false, code: 'step_incomplete' });
+  });
+
+  it('rejects an unknown step', () => {
+    const result = planStepTransition(session('terms'), 'payment' as OnboardingStep, {}, true);
+    expect(result).toMatchObject({ ok: false, code: 'invalid_step' });
+  });
+
+  it('advances over several completed steps with a valid draft', () => {
+    const result = planStepTransition(
+      session('resolution', ['terms', 'ai-chat', 'challenge-definition']),
+      'deposit',
+      VALID_DRAFT,
+      true
+    );
+    expect(result).toEqual({
+      ok: true,
+      kind: 'advance',
+      stepsCompleted: ['terms', 'ai-chat', 'challenge-definition', 'resolution'],
+    });
+  });
+});
+
+describe('getStepRequirementError', () => {
+  it('lets the AI chat be skipped', () => {
+    expect(getStepRequirementError('ai-chat', {}, false)).toBeNull();
+  });
+
+  it('only checks the fields edited on the step', () => {
+    expect(getStepRequirementError('resolution', { resolutionMethod: 'Photos' }, true)).toBeNull();
+    expect(getStepRequirementError('resolution', {}, true)).toBe(
+      'Explain how your guarantors will verify it'
+    );
+  });
+});
+
+describe('getIncompleteSteps', () => {
+  it('lists every step before sharing that is not completed', () => {
+    expect(
+      getIncompleteSteps({
+        steps_completed: ['terms', 'ai-chat', 'challenge-definition', 'resolution', 'deposit'],
+      })
+    ).toEqual(['notifications', 'activity-rate']);
+  });
+
+  it('does not require the sharing step', () => {
+    expect(
+      getIncompleteSteps({
+        steps_completed: [
+          'terms',
+          'ai-chat',
+          'challenge-definition',
+          'resolution',
+          'deposit',
+          'notifications',
+          'activity-rate',
+        ],
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import type { ChallengeDraft, OnboardingSession, OnboardingStep } from '@/types/onboarding';
+import { STEP_DRAFT_FIELDS, validateChallengeDraft } from './validation';
+
+// Onboarding steps in the order the user goes through them
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  'terms',
+  'ai-chat',
+  'challenge-definition',
+  'resolution',
+  'deposit',
+  'notifications',
+  'activity-rate',
+  'sharing',
+];
+
+export type StepTransition =
+  | {
+      ok: true;
+      kind: 'stay' | 'advance' | 'return';
+      stepsCompleted: OnboardingStep[];
+    }
+  | { ok: false; error: string; code: 'invalid_step' | 'illegal_step_transition' | 'step_incomplete' };
+
+export function isOnboardingStep(value: unknown): value is OnboardingStep {
+  return ONBOARDING_STEPS.includes(value as OnboardingStep);
+}
+
+/**
+ * Why a step cannot be completed yet, or null if it can. The terms step needs the
+ * current terms accepted; the AI chat can be skipped; every other step needs its
+ * draft fields to be valid.
+ */
+export function getStepRequirementError(
+  step: OnboardingStep,
+  draft: ChallengeDraft,
+  termsAccepted: boolean
+): string | null {
+  if (step === 'terms') {
+    return termsAccepted ? null : 'Please accept the current terms of service';
+  }
+
+  const errors = validateChallengeDraft(draft, { fields: STEP_DRAFT_FIELDS[step] || [] });
+  return Object.values(errors)[0] || null;
+}
+
+/**
+ * Check a move of the session to `target`. Any earlier step can be returned to.
+ * Moving forward completes the current step, and every step before the target
+ * must be completed and still meet its requirements against `draft`.
+ * Returns the steps completed after the move.
+ */
+export function planStepTransition(
+  session: Pick<OnboardingSession, 'current_step' | 'steps_completed'>,
+  target: OnboardingStep,
+  draft: ChallengeDraft,
+  termsAccepted: boolean
+): StepTransition {
+  if (!isOnboardingStep(target)) {
+    return { ok: false, error: `Unknown onboarding step: ${target}`, code: 'invalid_step' };
+  }
+
+  const completed = session.steps_completed || [];
+  const currentIndex = ONBOARDING_STEPS.indexOf(session.current_step);
+  const targetIndex = ONBOARDING_STEPS.indexOf(target);
+
+  if (targetIndex === currentIndex) {
+    return { ok: true, kind: 'stay', stepsCompleted: completed };
+  }
+
+  if (targetIndex < currentIndex) {
+    return { ok: true, kind: 'return', stepsCompleted: completed };
+  }
+
+  const stepsCompleted = completed.includes(session.current_step)
+    ? completed
+    : [...completed, session.current_step];
+
+  for (const step of ONBOARDING_STEPS.slice(0, targetIndex)) {
+    if (!stepsCompleted.includes(step)) {
+      return {
+        ok: false,
+        error: `Cannot move from ${session.current_step} to ${target}: ${step} has not been completed`,
+        code: 'illegal_step_transition',
+      };
+    }
+
+    const requirementError = getStepRequirementError(step, draft, termsAccepted);
+    if (requirementError) {
+      return {
+        ok: false,
+        error: `Cannot complete ${step}: ${requirementError}`,
+        code: 'step_incomplete',
+      };
+    }
+  }
+
+  return { ok: true, kind: 'advance', stepsCompleted };
+}
+
+/**
+ * Steps that still have to be completed before the challenge can be created:
+ * every step before the final one.
+ */
+export function getIncompleteSteps(
+  session: Pick<OnboardingSession, 'steps_completed'>
+): OnboardingStep[] {
+  const completed = session.steps_completed || [];
+  return ONBOARDING_STEPS.slice(0, -1).filter((step) => !completed.includes(step));
+}
@@ -0,0 +1,27 @@
+import type { ChallengeDraft, ChallengeTemplate } from '@/types/onboarding';
+
+/**
+ * Pre-fill the challenge draft from a template. Fields the template doesn't set
+ * (who gets the deposit, the guarantors) are left as they are.
+ */
+export function templateToDraft(template: ChallengeTemplate): ChallengeDraft {
+  const draft: ChallengeDraft = {
+    title: template.title,
+    description: template.description,
+    type: template.type,
+    frequency: template.frequency,
+    frequencyDetails: template.frequencyDetails,
+    durationDays: template.durationDays,
+    depositAmount: template.depositAmount,
+    notificationSettings: template.notificationSettings,
+    guarantorsCount: template.guarantorsCount,
+    aiSuggested: false,
+    aiConversationId: undefined,
+    aiConfidence: undefined,
+    templateId: template.id,
+  };
+
+  if (template.resolutionMethod) draft.resolutionMethod = template.resolutionMethod;
+
+  return draft;
+}
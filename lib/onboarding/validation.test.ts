@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import type { ChallengeDraft } from '@/types/onboarding';
+import { MAX_GUARANTORS, isValidDraft, validateChallengeDraft } from './validation';
+
+const VALID_DRAFT: ChallengeDraft = {
+  title: 'Read every evening',
+  description: '20 pages before bed',
+  type: 'learning',
+  resolutionMethod: 'Photo of the page I stopped at',
+  depositAmount: 25,
+  depositRecipient: 'friend',
+  linkedFriendEmail: 'friend@example.com',
+  frequency: 'specific-days',
+  frequencyDetails: { daysOfWeek: [1, 3, 5], timesPerDay: 1, specificTimes: ['21:00'] },
+  durationDays: 60,
+  notificationSettings: { enabled: true, reminderTime: '20:30', reminderDaysBefore: 1 },
+  guarantors: ['alice@example.com', 'bob@example.com'],
+  guarantorsCount: 2,
+};
+
+describe('validateChallengeDraft', () => {
+  it('accepts a complete, valid draft', () => {
+    const errors = validateChallengeDraft(VALID_DRAFT, { userEmail: 'me@example.com' });
+    expect(errors).toEqual({});
+    expect(isValidDraft(errors)).toBe(true);
+  });
+
+  it('requires the fields a challenge cannot be created without', () => {
+    expect(validateChallengeDraft({})).toEqual({
+      title: 'Give your challenge a title',
+      description: 'Describe what you will do',
+      resolutionMethod: 'Explain how your guarantors will verify it',
+      depositAmount: 'Choose a deposit amount',
+      guarantors: 'Add at least one guarantor',
+    });
+  });
+
+  it('treats blank strings as missing', () => {
+    expect(validateChallengeDraft({ ...VALID_DRAFT, title: '   ' }).title).toBe(
+      'Give your challenge a title'
+    );
+  });
+
+  it('only checks the given fields', () => {
+    expect(validateChallengeDraft({ depositAmount: 0 }, { fields: ['title', 'type'] })).toEqual({
+      title: 'Give your challenge a title',
+    });
+  });
+
+  it('keeps deposits within the escrow contract limits', () => {
+    for (const depositAmount of [0.5, 10001, NaN, Infinity]) {
+      expect(validateChallengeDraft({ ...VALID_DRAFT, depositAmount }).depositAmount).toBeDefined();
+    }
+    for (const depositAmount of [1, 10000]) {
+      expect(validateChallengeDraft({ ...VALID_DRAFT, depositAmount }).depositAmount).toBeUndefined();
+    }
+  });
+
+  it('needs a friend email when the deposit goes to a friend', () => {
+    const errors = validateChallengeDraft({ ...VALID_DRAFT, linkedFriendEmail: undefined });
+    expect(errors.depositRecipient).toBe('Enter the email of the friend who receives the deposit');
+  });
+
+  it('rejects the user as the deposit recipient or a guarantor', () => {
+    const errors = validateChallengeDraft(
+      {
+        ...VALID_DRAFT,
+        linkedFriendEmail: 'Me@Example.com',
+        guarantors: ['alice@example.com', 'ME@example.com'],
+      },
+      { userEmail: 'me@example.com' }
+    );
+    expect(errors.linkedFriendEmail).toBe('Your deposit cannot go to yourself');
+    expect(errors.guarantors).toBe('You cannot be your own guarantor');
+  });
+
+  it('rejects invalid, duplicate and too many guarantors', () => {
+    expect(validateChallengeDraft({ ...VALID_DRAFT, guarantors: ['not-an-email'] }).guarantors).toBe(
+      'Every guarantor needs a valid email address'
+    );
+    expect(
+      validateChallengeDraft({ ...VALID_DRAFT, guarantors: ['a@example.com', 'A@example.com'] })
+        .guarantors
+    ).toBe('Each guarantor can only be added once');
+
+    const guarantors = Array.from({ length: MAX_GUARANTORS + 1 }, (_, i) => `g${i}@example.com`);
+    expect(validateChallengeDraft({ ...VALID_DRAFT, guarantors }).guarantors).toBe(
+      `You can have at most ${MAX_GUARANTORS} guarantors`
+    );
+  });
+
+  it('checks the schedule against the frequency', () => {
+    const errors = validateChallengeDraft({
+      ...VALID_DRAFT,
+      frequencyDetails: { daysOfWeek: [] },
+    });
+    expect(errors.frequency).toBe('Pick at least one day of the week');
+
+    expect(
+      validateChallengeDraft({
+        ...VALID_DRAFT,
+        frequencyDetails: { daysOfWeek: [1, 1] },
+      }).frequencyDetails
+    ).toBe('Each day can only be picked once');
+
+    expect(
+      validateChallengeDraft({
+        ...VALID_DRAFT,
+        frequencyDetails: { daysOfWeek: [1], timesPerDay: 2, specificTimes: ['08:00'] },
+      }).frequencyDetails
+    ).toBe('Give one time for each time a day');
+
+    expect(
+      validateChallengeDraft({
+        ...VALID_DRAFT,
+        frequencyDetails: { daysOfWeek: [1], specificTimes: ['24:00'] },
+      }).frequencyDetails
+    ).toBe('Times must be in HH:MM format');
+  });
+
+  it('limits the duration to whole days within a year', () => {
+    for (const durationDays of [0, 1.5, 366]) {
+      expect(validateChallengeDraft({ ...VALID_DRAFT, durationDays }).durationDays).toBeDefined();
+    }
+  });
+
+  it('checks the reminder settings', () => {
+    expect(
+      validateChallengeDraft({
+        ...VALID_DRAFT,
+        notificationSettings: { enabled: true, reminderTime: '7am' },
+      }).notificationSettings
+    ).toBe('Reminder time must be in HH:MM format');
+  });
+});
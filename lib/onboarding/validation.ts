@@ -0,0 +1,243 @@
+// Challenge draft validation shared by the onboarding page and the API routes, so a
+// challenge the ChallengeEscrow contract would reject is caught before the card is charged.
+// No server-only imports here.
+
+import type {
+  ChallengeDraft,
+  ChallengeDraftErrors,
+  ChallengeType,
+  FrequencyDetails,
+  FrequencyType,
+  NotificationSettings,
+  OnboardingStep,
+} from '@/types/onboarding';
+
+// Limits enforced by ChallengeEscrow.createChallenge
+export const MIN_DEPOSIT_USD = 1;
+export const MAX_DEPOSIT_USD = 10000;
+export const MAX_GUARANTORS = 10;
+
+export const MAX_DURATION_DAYS = 365;
+export const MAX_TITLE_LENGTH = 255;
+
+export const CHALLENGE_TYPES: ChallengeType[] = [
+  'behavioral',
+  'habit',
+  'milestone',
+  'consistency',
+  'wellness',
+  'learning',
+  'fitness',
+  'productivity',
+  'custom',
+];
+
+export const FREQUENCY_TYPES: FrequencyType[] = ['daily', 'weekly', 'specific-days', 'custom'];
+
+// HH:MM, 24-hour clock
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Fields a challenge cannot be created without
+const REQUIRED_FIELDS: (keyof ChallengeDraft)[] = [
+  'title',
+  'description',
+  'resolutionMethod',
+  'depositAmount',
+  'guarantors',
+];
+
+// Draft fields edited on each onboarding step
+export const STEP_DRAFT_FIELDS: Partial<Record<OnboardingStep, (keyof ChallengeDraft)[]>> = {
+  'challenge-definition': ['title', 'description', 'type'],
+  resolution: ['resolutionMethod'],
+  deposit: ['depositAmount', 'depositRecipient', 'linkedFriendEmail'],
+  notifications: ['notificationSettings'],
+  'activity-rate': ['frequency', 'frequencyDetails', 'durationDays'],
+  sharing: ['guarantorsCount'],
+};
+
+/**
+ * Validate a challenge draft. Checks every field unless `fields` is given (e.g. one
+ * onboarding step). `userEmail` is needed to reject the user as their own guarantor.
+ * Returns an error message per invalid field; an empty object means the draft is valid.
+ */
+export function validateChallengeDraft(
+  draft: ChallengeDraft,
+  options: { fields?: (keyof ChallengeDraft)[]; userEmail?: string | null } = {}
+): ChallengeDraftErrors {
+  const fields = options.fields || (Object.keys(FIELD_VALIDATORS) as (keyof ChallengeDraft)[]);
+  const errors: ChallengeDraftErrors = {};
+
+  for (const field of fields) {
+    const value = draft[field];
+    const missing =
+      value === undefined ||
+      value === null ||
+      (typeof value === 'string' && !value.trim()) ||
+      (Array.isArray(value) && value.length === 0);
+
+    if (missing) {
+      if (REQUIRED_FIELDS.includes(field)) errors[field] = REQUIRED_MESSAGES[field];
+      continue;
+    }
+
+    const error = FIELD_VALIDATORS[field]?.(draft, options.userEmail);
+    if (error) errors[field] = error;
+  }
+
+  return errors;
+}
+
+export function isValidDraft(errors: ChallengeDraftErrors): boolean {
+  return Object.keys(errors).length === 0;
+}
+
+const REQUIRED_MESSAGES: ChallengeDraftErrors = {
+  title: 'Give your challenge a title',
+  description: 'Describe what you will do',
+  resolutionMethod: 'Explain how your guarantors will verify it',
+  depositAmount: 'Choose a deposit amount',
+  guarantors: 'Add at least one guarantor',
+};
+
+type FieldValidator = (draft: ChallengeDraft, userEmail?: string | null) => string | null;
+
+const FIELD_VALIDATORS: Partial<Record<keyof ChallengeDraft, FieldValidator>> = {
+  title: ({ title }) => {
+    if (typeof title !== 'string') return 'Give your challenge a title';
+    return title.length > MAX_TITLE_LENGTH
+      ? `Keep the title under ${MAX_TITLE_LENGTH} characters`
+      : null;
+  },
+
+  description: ({ description }) =>
+    typeof description === 'string' ? null : 'Describe what you will do',
+
+  type: ({ type }) => (CHALLENGE_TYPES.includes(type!) ? null : 'Choose a challenge type'),
+
+  resolutionMethod: ({ resolutionMethod }) =>
+    typeof resolutionMethod === 'string' ? null : 'Explain how your guarantors will verify it',
+
+  depositAmount: ({ depositAmount }) =>
+    typeof depositAmount === 'number' &&
+    Number.isFinite(depositAmount) &&
+    depositAmount >= MIN_DEPOSIT_USD &&
+    depositAmount <= MAX_DEPOSIT_USD
+      ? null
+      : `Deposits must be between $${MIN_DEPOSIT_USD} and $${MAX_DEPOSIT_USD.toLocaleString('en-US')}`,
+
+  depositRecipient: ({ depositRecipient, linkedFriendEmail }) => {
+    if (depositRecipient !== 'platform' && depositRecipient !== 'friend') {
+      return 'Choose who receives the deposit if you fail';
+    }
+    if (depositRecipient === 'friend' && !linkedFriendEmail?.trim()) {
+      return 'Enter the email of the friend who receives the deposit';
+    }
+    return null;
+  },
+
+  linkedFriendEmail: ({ linkedFriendEmail }, userEmail) => {
+    if (typeof linkedFriendEmail !== 'string' || !EMAIL_REGEX.test(linkedFriendEmail)) {
+      return 'Enter a valid email address';
+    }
+    if (userEmail && sameEmail(linkedFriendEmail, userEmail)) {
+      return 'Your deposit cannot go to yourself';
+    }
+    return null;
+  },
+
+  // The schedule details must match the chosen frequency
+  frequency: ({ frequency, frequencyDetails }) => {
+    if (!FREQUENCY_TYPES.includes(frequency!)) return 'Choose how often you will do it';
+    if (frequency === 'specific-days' && !frequencyDetails?.daysOfWeek?.length) {
+      return 'Pick at least one day of the week';
+    }
+    return null;
+  },
+
+  frequencyDetails: ({ frequencyDetails }) => validateFrequencyDetails(frequencyDetails!),
+
+  durationDays: ({ durationDays }) =>
+    isInteger(durationDays, 1, MAX_DURATION_DAYS)
+      ? null
+      : `Challenges last between 1 and ${MAX_DURATION_DAYS} days`,
+
+  notificationSettings: ({ notificationSettings }) =>
+    validateNotificationSettings(notificationSettings!),
+
+  guarantors: ({ guarantors }, userEmail) => {
+    if (!Array.isArray(guarantors)) return 'Add at least one guarantor';
+    if (guarantors.length > MAX_GUARANTORS) {
+      return `You can have at most ${MAX_GUARANTORS} guarantors`;
+    }
+    if (guarantors.some((email) => typeof email !== 'string' || !EMAIL_REGEX.test(email))) {
+      return 'Every guarantor needs a valid email address';
+    }
+    if (new Set(guarantors.map((email) => email.trim().toLowerCase())).size !== guarantors.length) {
+      return 'Each guarantor can only be added once';
+    }
+    if (userEmail && guarantors.some((email) => sameEmail(email, userEmail))) {
+      return 'You cannot be your own guarantor';
+    }
+    return null;
+  },
+
+  guarantorsCount: ({ guarantorsCount }) =>
+    isInteger(guarantorsCount, 1, MAX_GUARANTORS)
+      ? null
+      : `Choose between 1 and ${MAX_GUARANTORS} guarantors`,
+};
+
+function validateFrequencyDetails(details: FrequencyDetails): string | null {
+  if (typeof details !== 'object') return 'Choose a valid schedule';
+
+  const { daysOfWeek, timesPerWeek, timesPerDay, specificTimes } = details;
+
+  if (daysOfWeek) {
+    if (!Array.isArray(daysOfWeek) || !daysOfWeek.every((day) => isInteger(day, 0, 6))) {
+      return 'Pick valid days of the week';
+    }
+    if (new Set(daysOfWeek).size !== daysOfWeek.length) return 'Each day can only be picked once';
+  }
+  if (timesPerWeek !== undefined && !isInteger(timesPerWeek, 1, 7)) {
+    return 'Choose between 1 and 7 times a week';
+  }
+  if (timesPerDay !== undefined && !isInteger(timesPerDay, 1, 24)) {
+    return 'Choose between 1 and 24 times a day';
+  }
+  if (specificTimes) {
+    if (
+      !Array.isArray(specificTimes) ||
+      !specificTimes.every((time) => TIME_OF_DAY_REGEX.test(time))
+    ) {
+      return 'Times must be in HH:MM format';
+    }
+    if (timesPerDay !== undefined && specificTimes.length !== timesPerDay) {
+      return 'Give one time for each time a day';
+    }
+  }
+  return null;
+}
+
+function validateNotificationSettings(settings: NotificationSettings): string | null {
+  if (typeof settings !== 'object' || typeof settings.enabled !== 'boolean') return 'Choose whether to get reminders';
+  if (settings.reminderTime && !TIME_OF_DAY_REGEX.test(settings.reminderTime)) {
+    return 'Reminder time must be in HH:MM format';
+  }
+  if (
+    settings.reminderDaysBefore !== undefined &&
+    !isInteger(settings.reminderDaysBefore, 0, MAX_DURATION_DAYS)
+  ) {
+    return 'Choose a valid number of days';
+  }
+  return null;
+}
+
+function sameEmail(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function isInteger(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
@@ -0,0 +1,49 @@
+import type { ChallengeVisibility, SharedChallenge } from '@/types/challenge';
+
+const NEXT_PUBLIC_APP_URL =
+  process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+export const CHALLENGE_VISIBILITIES: ChallengeVisibility[] = ['public', 'unlisted', 'private'];
+
+// Where a share link was sent, recorded as ?via= so opens can be attributed
+export const SHARE_CHANNELS = ['copy', 'native', 'whatsapp', 'telegram', 'twitter', 'email'] as const;
+
+export type ShareChannel = (typeof SHARE_CHANNELS)[number];
+
+export function isShareChannel(value: unknown): value is ShareChannel {
+  return typeof value === 'string' && SHARE_CHANNELS.includes(value as ShareChannel);
+}
+
+export function getChallengePath(slug: string): string {
+  return `/c/${encodeURIComponent(slug)}`;
+}
+
+export function getChallengeShareUrl(slug: string, channel?: ShareChannel): string {
+  const url = `${NEXT_PUBLIC_APP_URL}${getChallengePath(slug)}`;
+  return channel ? `${url}?via=${channel}` : url;
+}
+
+export const CHALLENGE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Getting started',
+  created: 'In progress',
+  voting: 'Being reviewed by guarantors',
+  completed: 'Completed',
+  redeemed: 'Finished',
+};
+
+// The headline numbers of a shared challenge, as shown on its page and link preview
+export function getSharedChallengeStats(
+  challenge: SharedChallenge
+): { value: string; label: string }[] {
+  const stats = [
+    { value: String(challenge.durationDays), label: challenge.durationDays === 1 ? 'day' : 'days' },
+  ];
+  if (challenge.depositAmount !== null) {
+    stats.push({ value: `$${challenge.depositAmount.toLocaleString('en-US')}`, label: 'deposit' });
+  }
+  stats.push({
+    value: String(challenge.guarantorsCount),
+    label: challenge.guarantorsCount === 1 ? 'guarantor' : 'guarantors',
+  });
+  return stats;
+}
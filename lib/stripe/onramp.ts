@@ -2,6 +2,8 @@
  * Stripe Crypto Onramp utilities
  */
 
+import { getAuthHeaders } from "@/lib/auth/client";
+
 export interface OnrampSessionResponse {
   clientSecret: string;
   sessionId: string;
@@ -48,6 +50,7 @@ export async function createOnrampSession(
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      ...getAuthHeaders(),
     },
     body: JSON.stringify(params),
   });
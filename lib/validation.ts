@@ -0,0 +1,9 @@
+// Input format checks shared by the API routes
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Whether a value is a UUID, e.g. before looking up a row by an ID from the URL
+// (Postgres rejects malformed UUIDs with an error instead of finding nothing)
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_REGEX.test(value);
+}
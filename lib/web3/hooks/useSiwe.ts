@@ -0,0 +1,171 @@
+"use client";
+
+import { useAccount, useSignMessage } from "wagmi";
+import { useCallback, useState } from "react";
+import { createSiweMessage } from "viem/siwe";
+import {
+  clearStoredTokens,
+  getAuthHeaders,
+  getSessionStartHeaders,
+} from "@/lib/auth/client";
+import type { CookieSessionResponse, MfaChallengeResponse, User } from "@/types/auth";
+
+/**
+ * Hook for Sign-In with Ethereum (EIP-4361)
+ *
+ * - signIn: log in with a wallet already linked to an account
+ * - linkWallet: prove ownership of the connected wallet and link it to the signed-in account
+ *
+ * signIn starts a cookie session, like email login does; linkWallet keeps the
+ * current one. When the account has two-factor authentication, signIn leaves an
+ * mfaChallenge to finish with verifyMfa (or with TOTP enrollment, when 2FA is
+ * required but not set up yet).
+ */
+export function useSiwe() {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallengeResponse | null>(null);
+
+  // The session cookies are set by the sign-in response
+  const finishSignIn = useCallback(() => {
+    clearStoredTokens();
+    setMfaChallenge(null);
+  }, []);
+
+  // Build and sign a SIWE message with a fresh server nonce
+  const signSiweMessage = useCallback(async () => {
+    if (!address || !chainId) {
+      throw new Error("Connect a wallet first");
+    }
+
+    const nonceResponse = await fetch("/api/auth/siwe/nonce");
+    if (!nonceResponse.ok) {
+      throw new Error("Failed to get sign-in nonce");
+    }
+    const { nonce } = await nonceResponse.json();
+
+    const message = createSiweMessage({
+      address,
+      chainId,
+      domain: window.location.host,
+      uri: window.location.origin,
+      nonce,
+      version: "1",
+      statement: "Sign in to Showup with your wallet.",
+      issuedAt: new Date(),
+    });
+
+    const signature = await signMessageAsync({ message });
+
+    return { message, signature };
+  }, [address, chainId, signMessageAsync]);
+
+  const authenticate = useCallback(
+    async (
+      endpoint: string,
+      startsSession: boolean
+    ): Promise<{ user: User } | null> => {
+      setIsSigning(true);
+      setError(null);
+
+      try {
+        const { message, signature } = await signSiweMessage();
+
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: startsSession
+            ? getSessionStartHeaders()
+            : { "Content-Type": "application/json", ...getAuthHeaders() },
+          body: JSON.stringify({ message, signature }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Wallet authentication failed");
+        }
+
+        // The wallet replaced the password; a second factor is still needed
+        if (result.mfaToken) {
+          setMfaChallenge(result as MfaChallengeResponse);
+          return null;
+        }
+
+        if (startsSession) finishSignIn();
+
+        return result as { user: User };
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Wallet authentication failed");
+        return null;
+      } finally {
+        setIsSigning(false);
+      }
+    },
+    [signSiweMessage, finishSignIn]
+  );
+
+  // Log in with the connected wallet
+  const signIn = useCallback(
+    () => authenticate("/api/auth/siwe/login", true),
+    [authenticate]
+  );
+
+  // Link the connected wallet to the signed-in account
+  const linkWallet = useCallback(
+    () => authenticate("/api/auth/siwe/link", false),
+    [authenticate]
+  );
+
+  // Finish a wallet login with a TOTP or recovery code
+  const verifyMfa = useCallback(
+    async (input: string): Promise<CookieSessionResponse | null> => {
+      if (!mfaChallenge) return null;
+
+      setIsSigning(true);
+      setError(null);
+
+      // Six digits is an authenticator code, anything else a recovery code
+      const isTotpCode = /^\d{6}$/.test(input);
+
+      try {
+        const response = await fetch("/api/auth/mfa/verify", {
+          method: "POST",
+          headers: getSessionStartHeaders(),
+          body: JSON.stringify({
+            mfaToken: mfaChallenge.mfaToken,
+            ...(isTotpCode ? { code: input } : { recoveryCode: input }),
+          }),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Verification failed");
+        }
+
+        finishSignIn();
+
+        return result as CookieSessionResponse;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Verification failed");
+        return null;
+      } finally {
+        setIsSigning(false);
+      }
+    },
+    [mfaChallenge, finishSignIn]
+  );
+
+  return {
+    signIn,
+    linkWallet,
+    verifyMfa,
+    // After a completed mandatory TOTP enrollment, which starts the session
+    completeMfaEnrollment: finishSignIn,
+    mfaChallenge,
+    isSigning,
+    error,
+  };
+}
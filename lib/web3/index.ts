@@ -7,3 +7,4 @@ export { Web3Provider } from "./provider";
 // Hooks
 export { useWallet } from "./hooks/useWallet";
 export { useChallengeEscrow } from "./hooks/useChallengeEscrow";
+export { useSiwe } from "./hooks/useSiwe";
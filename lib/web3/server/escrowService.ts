@@ -13,8 +13,11 @@ import {
   CHALLENGE_ESCROW_ABI,
   ERC20_ABI,
   CONTRACT_ADDRESSES,
+  ChallengeState,
+  ChallengeStateLabels,
   parseUSDC,
 } from "@/types/contracts";
+import type { OnChainChallengeState } from "@/types/challenge";
 
 // Environment variables
 const PLATFORM_PRIVATE_KEY = process.env.PLATFORM_WALLET_PRIVATE_KEY;
@@ -263,6 +266,87 @@ export async function createChallengeOnChain(
   }
 }
 
+/**
+ * Get a public client for server-side reads, or null for unsupported chains
+ */
+export function getPublicClient(chainId: number = DEFAULT_CHAIN_ID) {
+  const chain = chains[chainId as keyof typeof chains];
+  if (!chain) return null;
+
+  return createPublicClient({
+    chain,
+    transport: http(getRpcUrl(chainId)),
+  });
+}
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const BYTES32_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+// Contract timestamps are unix seconds, with 0 meaning not set
+const toIsoDate = (seconds: bigint): string | null =>
+  seconds > BigInt(0) ? new Date(Number(seconds) * 1000).toISOString() : null;
+
+/**
+ * Read a challenge and its voting state from the escrow contract.
+ * Returns null when the contract is not deployed or can't be read, and for challenges
+ * it doesn't know (such as those simulated in test mode).
+ */
+export async function getChallengeStateOnChain(
+  onChainChallengeId: string,
+  chainId: number = DEFAULT_CHAIN_ID
+): Promise<OnChainChallengeState | null> {
+  try {
+    const contracts = CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
+    if (!contracts || contracts.challengeEscrow === ZERO_ADDRESS) return null;
+    if (!BYTES32_REGEX.test(onChainChallengeId)) return null;
+
+    const publicClient = getPublicClient(chainId);
+    if (!publicClient) return null;
+
+    const challengeId = onChainChallengeId as `0x${string}`;
+    const [challenge, votingState] = await Promise.all([
+      publicClient.readContract({
+        address: contracts.challengeEscrow,
+        abi: CHALLENGE_ESCROW_ABI,
+        functionName: "getChallenge",
+        args: [challengeId],
+      }),
+      publicClient.readContract({
+        address: contracts.challengeEscrow,
+        abi: CHALLENGE_ESCROW_ABI,
+        functionName: "getVotingState",
+        args: [challengeId],
+      }),
+    ]);
+
+    const [user, amount, state, createdAt, endTime, votingDeadline, remediationDeadline, metadataUri] = challenge;
+    if (user === ZERO_ADDRESS) return null;
+
+    const [guarantors, yesVotes, noVotes, requiredVotes] = votingState;
+
+    return {
+      state: state as ChallengeState,
+      stateLabel: ChallengeStateLabels[state as ChallengeState] || "Unknown",
+      userAddress: user,
+      amountUsd: Number(amount) / 1_000_000, // USDC has 6 decimals
+      createdAt: toIsoDate(createdAt),
+      endsAt: toIsoDate(endTime),
+      votingDeadline: toIsoDate(votingDeadline),
+      remediationDeadline: toIsoDate(remediationDeadline),
+      metadataUri,
+      voting: {
+        guarantors: [...guarantors],
+        yesVotes: Number(yesVotes),
+        noVotes: Number(noVotes),
+        requiredVotes: Number(requiredVotes),
+      },
+    };
+  } catch (error) {
+    console.error("Error reading challenge on-chain:", error);
+    return null;
+  }
+}
+
 /**
  * Check if the escrow contract is deployed and configured
  */
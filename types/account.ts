@@ -0,0 +1,25 @@
+import { AIConversation, OnboardingSession, TermsAcceptance } from './onboarding';
+
+// Personal data bundle returned by GET /api/account/export.
+// Rows are exported as stored, minus credentials and 2FA secrets.
+export interface AccountExport {
+  exportedAt: string;
+  user: Record<string, unknown>;
+  challenges: Record<string, unknown>[];
+  onboardingSessions: OnboardingSession[];
+  onboardingAnalytics: Record<string, unknown>[];
+  aiConversations: AIConversation[];
+  termsAcceptances: TermsAcceptance[];
+  challengeInvites: Record<string, unknown>[];
+}
+
+// A challenge that still has funds in escrow and blocks account deletion
+export interface BlockingChallenge {
+  challenge_id: string;
+  title: string;
+  status: string;
+}
+
+export type AccountDeletionResult =
+  | { deleted: true; anonymizedChallenges: number }
+  | { deleted: false; blockingChallenges: BlockingChallenge[] };
@@ -1,8 +1,11 @@
+export type UserRole = 'user' | 'admin' | 'support';
+
 export interface User {
   id: string;
   email: string;
   username: string | null;
   wallet_address: string | null;
+  role: UserRole;
   created_at: Date;
   updated_at: Date;
   email_verified: boolean;
@@ -13,16 +16,112 @@ export interface UserWithPassword extends User {
   password_hash: string;
 }
 
+// Login throttling state stored on the user row
+export interface LoginThrottleState {
+  failed_login_attempts: number;
+  last_failed_login_at: Date | null;
+  locked_until: Date | null;
+}
+
 export interface Session {
   id: string;
   user_id: string;
-  refresh_token: string;
+  family_id: string;
+  refresh_token_hash: string;
+  previous_refresh_token_hash: string | null;
   expires_at: Date;
   created_at: Date;
+  last_rotated_at: Date | null;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
   user_agent: string | null;
   ip_address: string | null;
 }
 
+export type SecurityEventType =
+  | 'refresh_token_reuse'
+  | 'account_locked'
+  | 'account_unlocked'
+  | 'mfa_enabled'
+  | 'mfa_disabled'
+  | 'mfa_recovery_code_used'
+  | 'account_deleted';
+
+export interface SecurityEvent {
+  id: string;
+  user_id: string | null;
+  event_type: SecurityEventType;
+  event_data: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+export interface EmailVerificationToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface PasswordResetToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  requested_ip: string | null;
+  created_at: Date;
+}
+
+export type LoginFailureReason =
+  | 'unknown_email'
+  | 'invalid_password'
+  | 'account_inactive'
+  | 'account_locked'
+  | 'throttled'
+  | 'invalid_mfa_code';
+
+export interface LoginAttempt {
+  id: string;
+  email: string;
+  user_id: string | null;
+  success: boolean;
+  failure_reason: LoginFailureReason | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date;
+}
+
+export interface AccountUnlockToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+// Two-factor state stored on the user row
+export interface MfaState {
+  mfa_totp_secret: string | null;
+  mfa_enabled_at: Date | null;
+  mfa_last_used_step: string | null;
+}
+
+// What the second login step asks for: a code, or enrolling first
+export type MfaChallengePurpose = 'verify' | 'enroll';
+
+export interface MfaRecoveryCode {
+  id: string;
+  user_id: string;
+  code_hash: string;
+  used_at: Date | null;
+  created_at: Date;
+}
+
 export interface RegisterRequest {
   email: string;
   password: string;
@@ -34,15 +133,73 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface SiweRequest {
+  message: string;
+  signature: `0x${string}`;
+}
+
 export interface AuthResponse {
   user: User;
   accessToken: string;
   refreshToken: string;
 }
 
+// Returned instead of AuthResponse in cookie session mode: the tokens are set as cookies
+export interface CookieSessionResponse {
+  user: User;
+  csrfToken: string;
+}
+
+// Returned by login instead of AuthResponse when a second factor is needed
+export interface MfaChallengeResponse {
+  mfaRequired: boolean;
+  mfaEnrollmentRequired: boolean;
+  mfaToken: string;
+}
+
+export interface MfaVerifyRequest {
+  mfaToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
 export interface JWTPayload {
   userId: string;
   email: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'mfa';
+  // Authorization role (access tokens only)
+  role?: UserRole;
+  // Session the token was issued for (access tokens only)
+  sid?: string;
+  // Refresh token family (refresh tokens only)
+  family?: string;
+  // Second login step the token is valid for (MFA challenge tokens only)
+  mfa?: MfaChallengePurpose;
+  // Unique token ID, set by the signer
+  jti?: string;
   [key: string]: unknown;
 }
+
+export interface ActiveSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_active_at: Date;
+  expires_at: Date;
+  current: boolean;
+}
+
+// How a client holds its tokens: in JS (Authorization header) or HttpOnly cookies
+export type SessionMode = 'bearer' | 'cookie';
+
+export interface RequestMetadata {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
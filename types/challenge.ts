@@ -0,0 +1,100 @@
+import type { ChallengeState } from './contracts';
+import type {
+  ChallengeType,
+  FrequencyDetails,
+  FrequencyType,
+  NotificationSettings,
+} from './onboarding';
+
+export type ChallengeStatus =
+  | 'pending' // awaiting payment or on-chain creation
+  | 'created'
+  | 'failed'
+  | 'completed'
+  | 'voting'
+  | 'redeemed';
+
+// Who can open a challenge's public page (/c/<slug>):
+// public - anyone, and search engines may index it
+// unlisted - anyone with the link
+// private - nobody, the page is not found
+export type ChallengeVisibility = 'public' | 'unlisted' | 'private';
+
+export type ChallengeShareEventType = 'link_shared' | 'link_opened';
+
+export interface ChallengeShareSettings {
+  slug: string;
+  url: string;
+  visibility: ChallengeVisibility;
+  showDeposit: boolean;
+}
+
+// A challenge as shown on its public page and link preview
+export interface SharedChallenge {
+  slug: string;
+  title: string;
+  description: string | null;
+  status: string;
+  ownerName: string;
+  durationDays: number;
+  // Null when the owner hides their deposit
+  depositAmount: number | null;
+  guarantorsCount: number;
+  visibility: ChallengeVisibility;
+  startedAt: Date | null;
+  endsAt: Date | null;
+}
+
+// Escrow contract state of a challenge, with amounts in USD and timestamps as ISO strings
+export interface OnChainChallengeState {
+  state: ChallengeState;
+  stateLabel: string;
+  userAddress: `0x${string}`;
+  amountUsd: number;
+  createdAt: string | null;
+  endsAt: string | null;
+  votingDeadline: string | null;
+  remediationDeadline: string | null;
+  metadataUri: string;
+  voting: {
+    guarantors: `0x${string}`[];
+    yesVotes: number;
+    noVotes: number;
+    requiredVotes: number;
+  };
+}
+
+// A challenge as returned to its owner
+export interface Challenge {
+  id: string;
+  challengeId: string;
+  title: string;
+  description: string | null;
+  status: ChallengeStatus;
+  type: ChallengeType | null;
+  resolutionMethod: string | null;
+  frequency: FrequencyType | null;
+  frequencyDetails: FrequencyDetails;
+  notificationSettings: NotificationSettings | null;
+  durationDays: number;
+  amountUsd: number;
+  depositRecipient: 'platform' | 'friend' | null;
+  guarantors: string[];
+  templateId: string | null;
+  inviteId: string | null;
+  slug: string | null;
+  visibility: ChallengeVisibility;
+  showDeposit: boolean;
+  onChainChallengeId: string | null;
+  transactionHash: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  endsAt: Date | null;
+  // Null when the challenge is not on-chain or the contract could not be read
+  onChain: OnChainChallengeState | null;
+}
+
+export interface ChallengeFilters {
+  statuses?: ChallengeStatus[];
+  type?: ChallengeType;
+}
@@ -22,6 +22,13 @@ export interface OnboardingSession {
   updated_at: Date;
 }
 
+// Session claimed by the abandonment job, with what is needed to remind its owner
+export interface AbandonedOnboardingSession extends OnboardingSession {
+  email: string;
+  // False for deactivated accounts and users who finished onboarding in another session
+  can_remind: boolean;
+}
+
 export interface ChallengeDraft {
   title?: string;
   description?: string;
@@ -38,8 +45,19 @@ export interface ChallengeDraft {
    guarantorsCount?: number;
    aiSuggested?: boolean;
   aiConversationId?: string;
+  // Template the draft was started from, if any
+  templateId?: string;
+  // Invite the draft was cloned from; links the challenge to the inviter's
+  inviteId?: string;
+  // How sure the AI was about each field it filled in (0-1); low values need review
+  aiConfidence?: FieldConfidence;
 }
 
+export type FieldConfidence = Partial<Record<keyof ChallengeDraft, number>>;
+
+// Validation error message per invalid draft field
+export type ChallengeDraftErrors = Partial<Record<keyof ChallengeDraft, string>>;
+
 export type ChallengeType = 
   | 'behavioral'
   | 'habit'
@@ -90,6 +108,12 @@ export interface SuggestedChallenge {
   suggestedDuration: number;
   suggestedDeposit: number;
   reasoning: string;
+  resolutionMethod?: string;
+  frequencyDetails?: FrequencyDetails;
+  notificationSettings?: NotificationSettings;
+  guarantorsCount?: number;
+  // Keyed by the ChallengeDraft field each value ends up in
+  confidence?: FieldConfidence;
 }
 
 export interface OnboardingAnalyticsEvent {
@@ -117,7 +141,10 @@ export type AnalyticsEventType =
   | 'guarantor_removed'
   | 'terms_accepted'
   | 'session_completed'
-  | 'session_abandoned';
+  | 'session_abandoned'
+  | 'session_resumed'
+  | 'invite_created'
+  | 'invite_accepted';
 
 export interface AIConversation {
   id: string;
@@ -132,6 +159,113 @@ export interface AIConversation {
   updated_at: Date;
 }
 
+// Row in the user's conversation history
+export interface AIConversationSummary {
+  id: string;
+  onboarding_session_id: string | null;
+  first_message: string | null;
+  message_count: number;
+  suggestion_count: number;
+  selected_title: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Curated challenge a user can start from instead of the AI chat
+export interface ChallengeTemplate {
+  id: string;
+  slug: string;
+  title: string;
+  description: string;
+  type: ChallengeType;
+  resolutionMethod: string | null;
+  frequency: FrequencyType;
+  frequencyDetails: FrequencyDetails;
+  durationDays: number;
+  depositAmount: number;
+  notificationSettings: NotificationSettings;
+  guarantorsCount: number;
+  // Paid challenges started from the template
+  usageCount: number;
+  // Share of the ended ones that were completed (0-1), null before any has ended
+  completionRate: number | null;
+}
+
+export interface ChallengeTemplateFilters {
+  type?: ChallengeType;
+  minDurationDays?: number;
+  maxDurationDays?: number;
+  minDeposit?: number;
+  maxDeposit?: number;
+  search?: string;
+}
+
+// A challenge linked to another through an invite, with its progress
+export interface LinkedChallenge {
+  id: string;
+  title: string;
+  status: string;
+  ownerName: string;
+  durationDays: number;
+  startedAt: Date | null;
+  endsAt: Date | null;
+}
+
+// What the recipient of an invite link sees
+export interface ChallengeInvitePreview {
+  inviterName: string;
+  // The challenge as the inviter drafted it, without who gets the deposit or the guarantors
+  challenge: ChallengeDraft;
+  // The inviter's challenge, once it has been created
+  inviterChallenge: LinkedChallenge | null;
+  expiresAt: Date;
+}
+
+// Funnel metrics (rates are 0-1, null when nothing was measured)
+
+export interface OnboardingStepMetrics {
+  step: OnboardingStep;
+  // Sessions that got to this step
+  reached: number;
+  // Sessions that went on to the next step (or finished, for the last step)
+  continued: number;
+  conversionRate: number | null;
+  medianTimeSeconds: number | null;
+}
+
+// Completion of sessions past the AI chat step, split by how the challenge was chosen
+export interface OnboardingPathMetrics {
+  sessions: number;
+  completed: number;
+  completionRate: number | null;
+}
+
+export interface OnboardingCohortMetrics {
+  // Monday of the week the sessions started (YYYY-MM-DD, UTC)
+  weekStart: string;
+  totalSessions: number;
+  completedSessions: number;
+  abandonedSessions: number;
+  completionRate: number | null;
+  medianTimeToCompleteSeconds: number | null;
+  steps: OnboardingStepMetrics[];
+  aiSuggested: OnboardingPathMetrics;
+  manual: OnboardingPathMetrics;
+}
+
+export interface OnboardingMetrics {
+  totalSessions: number;
+  completedSessions: number;
+  abandonedSessions: number;
+  completionRate: number | null;
+  medianTimeToCompleteSeconds: number | null;
+  steps: OnboardingStepMetrics[];
+  aiSuggested: OnboardingPathMetrics;
+  manual: OnboardingPathMetrics;
+  popularChallengeTypes: Array<{ type: string; count: number }>;
+  cohorts: OnboardingCohortMetrics[];
+}
+
 // Challenge creation request that combines onboarding with existing flow
 export interface CreateChallengeFromOnboardingRequest {
   sessionId: string;
@@ -140,6 +274,15 @@ export interface CreateChallengeFromOnboardingRequest {
 }
 
 // Terms and Services
+export interface TermsVersion {
+  id: string;
+  version: string;
+  // What changed compared to the previous version
+  summary: string | null;
+  effective_at: Date;
+  created_at: Date;
+}
+
 export interface TermsAcceptance {
   termsVersion: string;
   acceptedAt: Date;